@@ -0,0 +1,123 @@
+import { onCall, HttpsError } from 'firebase-functions/v2/https';
+import { getFirestore } from 'firebase-admin/firestore';
+import {
+  HANGMAN_COLLECTION,
+  HANGMAN_SECRETS_COLLECTION,
+  HangmanGameState,
+  MAX_WRONG_GUESSES,
+  SetHangmanWordRequest,
+  SubmitHangmanGuessRequest,
+  normalizeHangmanWord,
+  getHangmanWordProblem,
+  maskWord
+} from '../../src/games/hangmanCore';
+import { requireUid, requireGameId, createGameResult, getGameResultRef } from './helpers';
+
+const requireGame = (game: HangmanGameState | undefined): HangmanGameState => {
+  if (!game) {
+    throw new HttpsError('not-found', 'This game no longer exists.');
+  }
+  return game;
+};
+
+// Store the setter's word where only they and the functions can read it, and start the game
+export const setHangmanWord = onCall<SetHangmanWordRequest, Promise<void>>(async (request) => {
+  const uid = requireUid(request.auth?.uid);
+  const gameId = requireGameId(request.data.gameId);
+  const word = normalizeHangmanWord(typeof request.data.word === 'string' ? request.data.word : '');
+
+  const problem = getHangmanWordProblem(word);
+  if (problem) {
+    throw new HttpsError('invalid-argument', problem);
+  }
+
+  const db = getFirestore();
+  const gameRef = db.collection(HANGMAN_COLLECTION).doc(gameId);
+  const secretRef = db.collection(HANGMAN_SECRETS_COLLECTION).doc(gameId);
+
+  await db.runTransaction(async (transaction) => {
+    const game = requireGame((await transaction.get(gameRef)).data() as HangmanGameState | undefined);
+
+    if (game.setter !== uid) {
+      throw new HttpsError('permission-denied', "You're not picking the word in this game.");
+    }
+
+    if (game.status !== 'waiting') {
+      throw new HttpsError('failed-precondition', 'The word for this game is already set.');
+    }
+
+    transaction.set(secretRef, { setter: uid, word });
+    transaction.update(gameRef, { pattern: maskWord(word, []), status: 'active' });
+  });
+});
+
+// Check the guesser's letter against the word, and finish the game once the word is
+// found or the figure is complete. The limit is always MAX_WRONG_GUESSES, whatever the
+// game says, since the guesser may be the one who created it.
+export const submitHangmanGuess = onCall<SubmitHangmanGuessRequest, Promise<void>>(async (request) => {
+  const uid = requireUid(request.auth?.uid);
+  const gameId = requireGameId(request.data.gameId);
+  const letter = typeof request.data.letter === 'string' ? request.data.letter.toUpperCase() : '';
+
+  if (!/^[A-Z]$/.test(letter)) {
+    throw new HttpsError('invalid-argument', 'Guess a single letter.');
+  }
+
+  const db = getFirestore();
+  const gameRef = db.collection(HANGMAN_COLLECTION).doc(gameId);
+  const secretRef = db.collection(HANGMAN_SECRETS_COLLECTION).doc(gameId);
+
+  await db.runTransaction(async (transaction) => {
+    const [gameDoc, secretDoc] = await Promise.all([transaction.get(gameRef), transaction.get(secretRef)]);
+    const game = requireGame(gameDoc.data() as HangmanGameState | undefined);
+
+    if (game.guesser !== uid) {
+      throw new HttpsError('permission-denied', "You're not guessing in this game.");
+    }
+
+    if (game.status !== 'active') {
+      throw new HttpsError('failed-precondition', game.status === 'waiting'
+        ? "The word hasn't been picked yet."
+        : 'This game is already over.');
+    }
+
+    if (game.guessedLetters.includes(letter)) {
+      throw new HttpsError('failed-precondition', 'You already guessed that letter!');
+    }
+
+    const word: string | undefined = secretDoc.data()?.word;
+    if (!word) {
+      throw new HttpsError('failed-precondition', "The word for this game couldn't be found.");
+    }
+
+    const guessedLetters = [...game.guessedLetters, letter];
+    const wrongLetters = word.includes(letter) ? game.wrongLetters : [...game.wrongLetters, letter];
+    const pattern = maskWord(word, guessedLetters);
+
+    const updates: Partial<HangmanGameState> = { guessedLetters, wrongLetters, pattern };
+
+    if (!pattern.includes('_')) {
+      updates.winner = game.guesser;
+    } else if (wrongLetters.length >= MAX_WRONG_GUESSES) {
+      updates.winner = game.setter;
+    }
+
+    if (updates.winner) {
+      updates.status = 'completed';
+      updates.word = word;
+
+      transaction.set(getGameResultRef(gameId), createGameResult({
+        gameId,
+        gameType: 'hangman',
+        players: [game.setter, game.guesser],
+        winner: updates.winner,
+        // Named like Wordle's outcomes for a word set by a friend
+        outcome: updates.winner === game.guesser ? 'solved' : 'stumped',
+        guessCounts: { [game.setter]: 0, [game.guesser]: guessedLetters.length },
+        startedAt: game.createdAt
+      }));
+    }
+
+    transaction.update(gameRef, updates);
+  });
+});
@@ -0,0 +1,29 @@
+import { HttpsError } from 'firebase-functions/v2/https';
+import { getFirestore } from 'firebase-admin/firestore';
+import { GAME_RESULTS_COLLECTION, GameResult } from '../../src/games/results';
+
+// Checks shared by every game's callables
+
+export const requireUid = (uid: string | undefined): string => {
+  if (!uid) {
+    throw new HttpsError('unauthenticated', 'You must be signed in to play.');
+  }
+  return uid;
+};
+
+export const requireGameId = (gameId: unknown): string => {
+  if (typeof gameId !== 'string' || !gameId) {
+    throw new HttpsError('invalid-argument', 'Missing game id.');
+  }
+  return gameId;
+};
+
+// A finished game's record for the players' history and head-to-head records,
+// stamped with when it ended
+export const createGameResult = (result: Omit<GameResult, 'completedAt' | 'durationMs'>): GameResult => {
+  const completedAt = Date.now();
+  return { ...result, completedAt, durationMs: completedAt - result.startedAt };
+};
+
+export const getGameResultRef = (gameId: string) =>
+  getFirestore().collection(GAME_RESULTS_COLLECTION).doc(gameId);
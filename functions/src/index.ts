@@ -0,0 +1,19 @@
+import { initializeApp } from 'firebase-admin/app';
+
+initializeApp();
+
+export {
+  submitWordleGuess,
+  resignWordleGame,
+  claimWordleTimeout,
+  joinWordleRoom,
+  startWordleRoom,
+  createWordleCustomWord,
+  submitDailyWordleGuess
+} from './wordle';
+
+export { revealRockPaperScissorsThrow, claimRockPaperScissorsTimeout } from './rockPaperScissors';
+
+export { recordTicTacToeResult } from './ticTacToe';
+
+export { setHangmanWord, submitHangmanGuess } from './hangman';
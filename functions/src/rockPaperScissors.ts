@@ -0,0 +1,162 @@
+import { createHash } from 'crypto';
+import { onCall, HttpsError } from 'firebase-functions/v2/https';
+import { getFirestore, Transaction } from 'firebase-admin/firestore';
+import {
+  ROCK_PAPER_SCISSORS_COLLECTION,
+  ROUND_TIME_LIMIT_MS,
+  RockPaperScissorsGameState,
+  RockPaperScissorsOutcome,
+  RevealRockPaperScissorsThrowRequest,
+  ClaimRockPaperScissorsTimeoutRequest,
+  Throw,
+  THROWS,
+  getCommitmentParts,
+  getWinsNeeded,
+  getRoundWinner,
+  getStalledPlayers,
+  getForfeitDeadline
+} from '../../src/games/rockPaperScissorsCore';
+import { requireUid, requireGameId, createGameResult, getGameResultRef } from './helpers';
+
+// Same hash the browser makes in src/utils/commitment.ts
+const hashCommitment = (parts: string[], salt: string): string =>
+  createHash('sha256').update([...parts, salt].join(':')).digest('hex');
+
+// Keep a record of a finished match; each player's move count is the rounds they threw in
+const recordRockPaperScissorsResult = (
+  transaction: Transaction,
+  gameId: string,
+  game: RockPaperScissorsGameState,
+  winner: string,
+  outcome: RockPaperScissorsOutcome
+): void => {
+  const players = [game.player1, game.player2];
+
+  transaction.set(getGameResultRef(gameId), createGameResult({
+    gameId,
+    gameType: 'rockpaper',
+    players,
+    winner,
+    outcome,
+    guessCounts: Object.fromEntries(players.map(player => [player, game.rounds.length])),
+    startedAt: game.createdAt
+  }));
+};
+
+// Check the caller is playing in a match that hasn't finished yet
+const requireActivePlayer = (game: RockPaperScissorsGameState | undefined, uid: string): RockPaperScissorsGameState => {
+  if (!game) {
+    throw new HttpsError('not-found', 'This game no longer exists.');
+  }
+
+  if (game.player1 !== uid && game.player2 !== uid) {
+    throw new HttpsError('permission-denied', "You're not playing in this game.");
+  }
+
+  if (game.status !== 'active') {
+    throw new HttpsError('failed-precondition', 'This game is already over.');
+  }
+
+  return game;
+};
+
+// Publish the caller's throw once both players have committed, and score the round
+// when it's the second reveal. The throw must match the hash committed earlier.
+export const revealRockPaperScissorsThrow = onCall<RevealRockPaperScissorsThrowRequest, Promise<void>>(async (request) => {
+  const uid = requireUid(request.auth?.uid);
+  const gameId = requireGameId(request.data.gameId);
+  const { throw: value, salt } = request.data;
+
+  // Checked against the list of throws, since `in` would also let through names like 'toString'
+  if (!THROWS.some(option => option.id === value) || typeof salt !== 'string' || !salt) {
+    throw new HttpsError('invalid-argument', 'Missing throw.');
+  }
+
+  const db = getFirestore();
+  const gameRef = db.collection(ROCK_PAPER_SCISSORS_COLLECTION).doc(gameId);
+
+  await db.runTransaction(async (transaction) => {
+    const gameDoc = await transaction.get(gameRef);
+    const game = requireActivePlayer(gameDoc.data() as RockPaperScissorsGameState | undefined, uid);
+    const opponent = game.player1 === uid ? game.player2 : game.player1;
+
+    if (!game.commitments[uid] || !game.commitments[opponent]) {
+      throw new HttpsError('failed-precondition', 'Both players have to throw before anyone reveals.');
+    }
+
+    if (game.reveals[uid]) {
+      throw new HttpsError('failed-precondition', "You've already revealed this round.");
+    }
+
+    if (hashCommitment(getCommitmentParts(gameId, game.round, uid, value), salt) !== game.commitments[uid]) {
+      throw new HttpsError('invalid-argument', "That isn't the throw you made this round.");
+    }
+
+    const reveals = { ...game.reveals, [uid]: { throw: value, salt } };
+
+    if (!reveals[opponent]) {
+      transaction.update(gameRef, { reveals });
+      return;
+    }
+
+    // Both reveals are in, and each was checked against its commitment when it arrived
+    const { player1, player2 } = game;
+    const throw1: Throw = reveals[player1].throw;
+    const throw2: Throw = reveals[player2].throw;
+    const roundWinner = getRoundWinner(player1, throw1, player2, throw2);
+
+    const scores = { ...game.scores };
+    if (roundWinner) {
+      scores[roundWinner] = (scores[roundWinner] || 0) + 1;
+    }
+
+    const matchWinner = roundWinner && scores[roundWinner] >= getWinsNeeded(game.bestOf) ? roundWinner : null;
+    const rounds = [...game.rounds, { throws: { [player1]: throw1, [player2]: throw2 }, winner: roundWinner }];
+
+    transaction.update(gameRef, {
+      rounds,
+      scores,
+      round: game.round + 1,
+      commitments: {},
+      reveals: {},
+      roundDeadline: Date.now() + ROUND_TIME_LIMIT_MS,
+      ...(matchWinner ? { status: 'completed', winner: matchWinner, outcome: 'won' } : {})
+    });
+
+    if (matchWinner) {
+      recordRockPaperScissorsResult(transaction, gameId, { ...game, rounds }, matchWinner, 'won');
+    }
+  });
+});
+
+// Hand the match to the caller when the opponent hasn't thrown, or hasn't revealed,
+// before the round ran out
+export const claimRockPaperScissorsTimeout = onCall<ClaimRockPaperScissorsTimeoutRequest, Promise<void>>(async (request) => {
+  const uid = requireUid(request.auth?.uid);
+  const gameId = requireGameId(request.data.gameId);
+
+  const db = getFirestore();
+  const gameRef = db.collection(ROCK_PAPER_SCISSORS_COLLECTION).doc(gameId);
+
+  await db.runTransaction(async (transaction) => {
+    const gameDoc = await transaction.get(gameRef);
+    const game = requireActivePlayer(gameDoc.data() as RockPaperScissorsGameState | undefined, uid);
+    const opponent = game.player1 === uid ? game.player2 : game.player1;
+    const stalled = getStalledPlayers(game);
+
+    if (stalled.includes(uid)) {
+      throw new HttpsError('failed-precondition', "You haven't finished this round yourself.");
+    }
+
+    if (!stalled.includes(opponent)) {
+      throw new HttpsError('failed-precondition', 'Your opponent is waiting on you.');
+    }
+
+    if (Date.now() < getForfeitDeadline(game)) {
+      throw new HttpsError('failed-precondition', "There's still time left in this round.");
+    }
+
+    transaction.update(gameRef, { status: 'completed', winner: uid, outcome: 'forfeit' });
+    recordRockPaperScissorsResult(transaction, gameId, game, uid, 'forfeit');
+  });
+});
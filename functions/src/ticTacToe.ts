@@ -0,0 +1,32 @@
+import { onDocumentUpdated } from 'firebase-functions/v2/firestore';
+import {
+  TIC_TAC_TOE_COLLECTION,
+  TicTacToeGameState,
+  getWinner
+} from '../../src/games/ticTacToeCore';
+import { createGameResult, getGameResultRef } from './helpers';
+
+// Tic Tac Toe moves are written by the players, with the rules checking each one,
+// so the result is recorded here when a game finishes. The winner comes from the
+// board rather than the winner field the last mover wrote.
+export const recordTicTacToeResult = onDocumentUpdated(`${TIC_TAC_TOE_COLLECTION}/{gameId}`, async (event) => {
+  const before = event.data?.before.data() as TicTacToeGameState | undefined;
+  const game = event.data?.after.data() as TicTacToeGameState | undefined;
+
+  if (!before || !game || before.status === 'completed' || game.status !== 'completed') return;
+
+  const winner = getWinner(game);
+
+  await getGameResultRef(event.params.gameId).set(createGameResult({
+    gameId: event.params.gameId,
+    gameType: 'tictactoe',
+    players: [game.playerX, game.playerO],
+    winner,
+    outcome: winner ? 'won' : 'draw',
+    guessCounts: {
+      [game.playerX]: game.board.filter(mark => mark === 'X').length,
+      [game.playerO]: game.board.filter(mark => mark === 'O').length
+    },
+    startedAt: game.createdAt
+  }));
+});
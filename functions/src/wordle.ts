@@ -0,0 +1,648 @@
+import { createHash } from 'crypto';
+import { onCall, HttpsError } from 'firebase-functions/v2/https';
+import { defineString } from 'firebase-functions/params';
+import { getFirestore, Transaction } from 'firebase-admin/firestore';
+import { getDatabase } from 'firebase-admin/database';
+import wordleAnswers from '../../src/games/data/wordleAnswers.json';
+import wordleDictionary from '../../src/games/data/wordleDictionary.json';
+import wordleAnswers4 from '../../src/games/data/wordleAnswers4.json';
+import wordleDictionary4 from '../../src/games/data/wordleDictionary4.json';
+import wordleAnswers6 from '../../src/games/data/wordleAnswers6.json';
+import wordleDictionary6 from '../../src/games/data/wordleDictionary6.json';
+import wordleAnswers7 from '../../src/games/data/wordleAnswers7.json';
+import wordleDictionary7 from '../../src/games/data/wordleDictionary7.json';
+import wordlePacks from '../../src/games/data/wordlePacks.json';
+import {
+  WORDLE_COLLECTION,
+  WORDLE_ANSWERS_COLLECTION,
+  DEFAULT_WORD_LENGTH,
+  WORD_LENGTH_CHOICES,
+  DEFAULT_MAX_GUESSES,
+  MAX_ROOM_PLAYERS,
+  TURN_TIME_LIMIT_MS,
+  DISCONNECT_GRACE_MS,
+  WordleGameState,
+  SubmitWordleGuessRequest,
+  SubmitWordleGuessResponse,
+  ResignWordleGameRequest,
+  ClaimWordleTimeoutRequest,
+  WordleRoomRequest,
+  WORDLE_RACE_GUESSES_COLLECTION,
+  WORDLE_RACE_PLAYERS_COLLECTION,
+  WordleRaceGuesses,
+  WORDLE_CUSTOM_WORDS_COLLECTION,
+  WordleCustomWord,
+  CreateWordleCustomWordRequest,
+  CreateWordleCustomWordResponse,
+  getTurnTimeLimit,
+  getGuessCount,
+  DEFAULT_WORD_PACK,
+  getGuessers,
+  getRemainingPlayers,
+  getNextPlayer,
+  canStillWinRace,
+  hasSolved,
+  DAILY_WORDLE_COLLECTION,
+  DAILY_WORDLE_DAYS_COLLECTION,
+  DAILY_WORDLE_STATS_COLLECTION,
+  DailyWordleGameState,
+  DailyWordleStats,
+  SubmitDailyWordleGuessRequest,
+  getDailyDate,
+  createDailyWordleStats,
+  recordDailyResult,
+  scoreGuess,
+  encodeFeedback,
+  toScoredGuesses,
+  getHardModeViolation,
+  getTimedOutTurn
+} from '../../src/games/wordleCore';
+import { requireUid, requireGameId, createGameResult, getGameResultRef } from './helpers';
+
+const ANSWERS: string[] = Object.values(wordleAnswers).flat();
+
+// Answers and allowed guesses for each word length
+const ANSWERS_BY_LENGTH: { [length: number]: string[] } = {
+  4: wordleAnswers4,
+  5: ANSWERS,
+  6: wordleAnswers6,
+  7: wordleAnswers7
+};
+
+const DICTIONARIES: { [length: number]: Set<string> } = {
+  4: new Set(wordleDictionary4),
+  5: new Set(wordleDictionary),
+  6: new Set(wordleDictionary6),
+  7: new Set(wordleDictionary7)
+};
+
+// Mixed into the daily word choice so it can't be worked out from the public answer list.
+// There's no default: without it every daily word could be predicted, so the puzzle refuses to run.
+const DAILY_WORDLE_SALT = defineString('DAILY_WORDLE_SALT', {
+  description: 'Secret text that decides which word each daily puzzle uses'
+});
+
+const WORD_PACKS: { [packId: string]: { words: string[] } } = wordlePacks;
+
+// Same collection as GAME_INVITES_COLLECTION in src/services/gameService.ts
+const GAME_INVITES_COLLECTION = 'gameInvites';
+
+// Unknown packs, like the classic one, pick from the full answer list.
+// Packs only hold 5-letter words, so other lengths always use the full list.
+const pickAnswer = (packId: string = DEFAULT_WORD_PACK, wordLength: number = DEFAULT_WORD_LENGTH): string => {
+  const words = (wordLength === DEFAULT_WORD_LENGTH && WORD_PACKS[packId]?.words) || ANSWERS_BY_LENGTH[wordLength];
+  return words[Math.floor(Math.random() * words.length)];
+};
+
+// The same date always gives the same word, so every player gets the same puzzle
+const pickDailyAnswer = (date: string): string => {
+  const salt = DAILY_WORDLE_SALT.value();
+  if (!salt) {
+    throw new HttpsError('failed-precondition', "Today's puzzle isn't available right now.");
+  }
+
+  const hash = createHash('sha256').update(`${salt}:${date}`).digest();
+  return ANSWERS[hash.readUInt32BE(0) % ANSWERS.length];
+};
+
+const requireValidGuess = (
+  rawGuess: unknown,
+  wordLength: number = DEFAULT_WORD_LENGTH,
+  label: string = 'Your guess'
+): string => {
+  const guess = typeof rawGuess === 'string' ? rawGuess.toUpperCase() : '';
+
+  if (guess.length !== wordLength) {
+    throw new HttpsError('invalid-argument', `${label} must be ${wordLength} letters!`);
+  }
+
+  if (!DICTIONARIES[wordLength]?.has(guess)) {
+    throw new HttpsError('invalid-argument', `${guess} is not in the word list!`);
+  }
+
+  return guess;
+};
+
+// Keep a record of a finished game for the players' history and head-to-head records
+const recordWordleResult = (transaction: Transaction, gameId: string, game: WordleGameState): void => {
+  transaction.set(getGameResultRef(gameId), createGameResult({
+    gameId,
+    gameType: 'wordle',
+    players: game.players,
+    winner: game.winner,
+    outcome: game.outcome || 'solved',
+    guessCounts: Object.fromEntries(game.players.map(player => [player, getGuessCount(game, player)])),
+    startedAt: game.createdAt
+  }));
+};
+
+const requireGame = (game: WordleGameState | undefined): WordleGameState => {
+  if (!game) {
+    throw new HttpsError('not-found', 'This game no longer exists.');
+  }
+  return game;
+};
+
+// Check the caller is playing in a game that has started and hasn't finished yet
+const requireActivePlayer = (gameData: WordleGameState | undefined, uid: string): WordleGameState => {
+  const game = requireGame(gameData);
+
+  if (!game.players.includes(uid) || game.leftPlayers.includes(uid)) {
+    throw new HttpsError('permission-denied', "You're not playing in this game.");
+  }
+
+  if (game.status === 'completed') {
+    throw new HttpsError('failed-precondition', 'This game is already over.');
+  }
+
+  if (game.status === 'waiting') {
+    throw new HttpsError('failed-precondition', "This game hasn't started yet.");
+  }
+
+  return game;
+};
+
+// Whether every one of a player's sessions has been gone for longer than the grace period
+const hasDisconnected = async (uid: string): Promise<boolean> => {
+  const status = (await getDatabase().ref(`status/${uid}`).get()).val();
+
+  if (status?.sessions && Object.keys(status.sessions).length > 0) {
+    return false;
+  }
+
+  const offlineSince = status?.lastDisconnectedAt || status?.lastActive || 0;
+  return Date.now() - offlineSince >= DISCONNECT_GRACE_MS;
+};
+
+const raceGuessesRef = (gameId: string, uid: string) =>
+  getFirestore()
+    .collection(WORDLE_RACE_GUESSES_COLLECTION)
+    .doc(gameId)
+    .collection(WORDLE_RACE_PLAYERS_COLLECTION)
+    .doc(uid);
+
+// Every racer's private guesses, keyed by user id; empty for turn-based games
+const getRaceGuesses = async (
+  transaction: Transaction,
+  gameId: string,
+  game: WordleGameState
+): Promise<{ [userId: string]: string[] }> => {
+  if (game.mode !== 'race') return {};
+
+  const raceDocs = await Promise.all(game.players.map(player => transaction.get(raceGuessesRef(gameId, player))));
+
+  return Object.fromEntries(game.players.map((player, i) => [
+    player,
+    raceDocs[i].exists ? (raceDocs[i].data() as WordleRaceGuesses).guesses : []
+  ]));
+};
+
+// Games from before word lengths could be picked are all 5 letters
+const getWordLength = (game: WordleGameState): number => game.wordLength || DEFAULT_WORD_LENGTH;
+
+// How a game ends when nobody found the word: a draw, or a win for whoever set it
+const endUnsolved = (game: WordleGameState): Partial<WordleGameState> =>
+  game.wordSetter
+    ? { status: 'completed', winner: game.wordSetter, outcome: 'stumped' }
+    : { status: 'completed', winner: null, outcome: 'draw' };
+
+// End a race where it stands. The leader only wins if their colors show they really
+// solved it, so a winner stored any other way can't be turned into a result.
+const endRace = (game: WordleGameState): Partial<WordleGameState> =>
+  game.winner && hasSolved(game, game.winner)
+    ? { status: 'completed', outcome: 'solved' }
+    : endUnsolved(game);
+
+// A race is over once nobody left can take the lead
+const settleRace = (game: WordleGameState): Partial<WordleGameState> =>
+  getRemainingPlayers(game).some(player => canStillWinRace(game, player)) ? {} : endRace(game);
+
+// The word a challenger set, or a random one from the game's pack. A set word is
+// claimed by the first game that plays it, so it can't be reused for another one.
+const pickGameAnswer = async (transaction: Transaction, gameId: string, game: WordleGameState): Promise<string> => {
+  if (!game.customWordId) {
+    return pickAnswer(game.wordPack, getWordLength(game));
+  }
+
+  const customWordRef = getFirestore().collection(WORDLE_CUSTOM_WORDS_COLLECTION).doc(game.customWordId);
+  const customWord = (await transaction.get(customWordRef)).data() as WordleCustomWord | undefined;
+
+  // Only the word's owner can have set it for this game
+  if (!customWord || customWord.ownerId !== game.wordSetter || customWord.word.length !== getWordLength(game)) {
+    throw new HttpsError('failed-precondition', "The word set for this game couldn't be found.");
+  }
+
+  if (customWord.gameId && customWord.gameId !== gameId) {
+    throw new HttpsError('failed-precondition', 'The word set for this game was already played in another one.');
+  }
+
+  transaction.update(customWordRef, { gameId });
+  return customWord.word;
+};
+
+// Once a game is over, reveal the word and, in a race, everyone's letters
+const revealIfCompleted = (
+  updates: Partial<WordleGameState>,
+  word: string | null,
+  raceGuesses: { [userId: string]: string[] }
+): Partial<WordleGameState> => {
+  if (updates.status !== 'completed') return updates;
+
+  return Object.keys(raceGuesses).length > 0
+    ? { ...updates, word, guesses: raceGuesses }
+    : { ...updates, word };
+};
+
+// Take a player out of the game. It ends once only one player is left to win it,
+// nobody left has a guess to take, or, in a race, nobody left can take the lead.
+const removePlayer = (
+  game: WordleGameState,
+  uid: string,
+  outcome: 'resigned' | 'forfeit'
+): Partial<WordleGameState> => {
+  const leftPlayers = [...game.leftPlayers, uid];
+  const remaining = getRemainingPlayers({ ...game, leftPlayers });
+
+  if (remaining.length === 1 && !game.winner) {
+    return { leftPlayers, status: 'completed', winner: remaining[0], outcome };
+  }
+
+  if (game.mode === 'race') {
+    return { leftPlayers, ...settleRace({ ...game, leftPlayers }) };
+  }
+
+  if (game.currentPlayer !== uid) {
+    return { leftPlayers };
+  }
+
+  const nextPlayer = getNextPlayer({ ...game, leftPlayers }, uid);
+
+  return nextPlayer
+    ? { leftPlayers, currentPlayer: nextPlayer, turnDeadline: Date.now() + TURN_TIME_LIMIT_MS }
+    : { leftPlayers, ...endUnsolved(game) };
+};
+
+// Score a guess against the hidden answer and record it on the game.
+// Browsers only ever see the colors; the word is copied onto the game once it's over.
+export const submitWordleGuess = onCall<SubmitWordleGuessRequest, Promise<SubmitWordleGuessResponse>>(
+  async (request) => {
+    const uid = requireUid(request.auth?.uid);
+    const gameId = requireGameId(request.data.gameId);
+    const db = getFirestore();
+    const gameRef = db.collection(WORDLE_COLLECTION).doc(gameId);
+    const answerRef = db.collection(WORDLE_ANSWERS_COLLECTION).doc(gameId);
+
+    return db.runTransaction(async (transaction) => {
+      const [gameDoc, answerDoc] = await Promise.all([
+        transaction.get(gameRef),
+        transaction.get(answerRef)
+      ]);
+
+      const game = requireActivePlayer(gameDoc.data() as WordleGameState | undefined, uid);
+      const isRace = game.mode === 'race';
+      const raceGuesses = await getRaceGuesses(transaction, gameId, game);
+
+      if (uid === game.wordSetter) {
+        throw new HttpsError('failed-precondition', "You set this word, so you can't guess it!");
+      }
+
+      if (!isRace && game.currentPlayer !== uid) {
+        throw new HttpsError('failed-precondition', "It's not your turn!");
+      }
+
+      if (getGuessCount(game, uid) >= (game.maxGuesses || DEFAULT_MAX_GUESSES)) {
+        throw new HttpsError('failed-precondition', "You're out of guesses!");
+      }
+
+      if (isRace && !canStillWinRace(game, uid)) {
+        throw new HttpsError(
+          'failed-precondition',
+          uid === game.winner ? "You've already solved it!" : 'Someone already solved it in fewer guesses.'
+        );
+      }
+
+      const guess = requireValidGuess(request.data.guess, getWordLength(game));
+      const previousGuesses = (isRace ? raceGuesses[uid] : game.guesses[uid]) || [];
+
+      if (game.hardMode) {
+        const violation = getHardModeViolation(guess, toScoredGuesses(previousGuesses, game.feedback[uid] || []));
+        if (violation) {
+          throw new HttpsError('invalid-argument', violation);
+        }
+      }
+
+      // Pick the word on the first guess so it never passes through a browser
+      let word: string;
+      if (answerDoc.exists) {
+        word = answerDoc.get('word');
+      } else {
+        word = await pickGameAnswer(transaction, gameId, game);
+        transaction.create(answerRef, { word, createdAt: Date.now() });
+      }
+
+      const result = scoreGuess(guess, word);
+      const isCorrect = guess === word;
+      const myGuesses = [...previousGuesses, guess];
+      const feedback = { ...game.feedback, [uid]: [...(game.feedback[uid] || []), encodeFeedback(result)] };
+      const now = Date.now();
+      const moves = [...(game.moves || []), { playerId: uid, time: now }];
+      const turnDeadline = now + getTurnTimeLimit(game.mode);
+
+      let updates: Partial<WordleGameState>;
+
+      if (isRace) {
+        // Racers' letters stay private; the others only see the colors
+        transaction.set(raceGuessesRef(gameId, uid), { guesses: myGuesses });
+        raceGuesses[uid] = myGuesses;
+
+        // A racer can only guess while they could still take the lead, so solving it does
+        updates = { feedback, moves, winner: isCorrect ? uid : game.winner, turnDeadline };
+        updates = { ...updates, ...settleRace({ ...game, ...updates }) };
+      } else {
+        const guesses = { ...game.guesses, [uid]: myGuesses };
+        // Pass the turn to the next player with guesses left, which may be this player again
+        const nextPlayer = getNextPlayer({ ...game, guesses, feedback }, uid);
+
+        updates = { guesses, feedback, moves, currentPlayer: nextPlayer || uid, turnDeadline };
+
+        if (isCorrect) {
+          updates = { ...updates, status: 'completed', winner: uid, outcome: 'solved' };
+        } else if (!nextPlayer) {
+          updates = { ...updates, ...endUnsolved(game) };
+        }
+      }
+
+      updates = revealIfCompleted(updates, word, raceGuesses);
+      transaction.update(gameRef, updates);
+
+      if (updates.status === 'completed') {
+        recordWordleResult(transaction, gameId, { ...game, ...updates });
+      }
+
+      return { result, isCorrect };
+    });
+  }
+);
+
+// Give up a game. With two players the opponent wins; otherwise the others play on.
+export const resignWordleGame = onCall<ResignWordleGameRequest, Promise<void>>(async (request) => {
+  const uid = requireUid(request.auth?.uid);
+  const gameId = requireGameId(request.data.gameId);
+
+  const db = getFirestore();
+  const gameRef = db.collection(WORDLE_COLLECTION).doc(gameId);
+  const answerRef = db.collection(WORDLE_ANSWERS_COLLECTION).doc(gameId);
+
+  await db.runTransaction(async (transaction) => {
+    const [gameDoc, answerDoc] = await Promise.all([
+      transaction.get(gameRef),
+      transaction.get(answerRef)
+    ]);
+
+    const game = requireActivePlayer(gameDoc.data() as WordleGameState | undefined, uid);
+    const raceGuesses = await getRaceGuesses(transaction, gameId, game);
+
+    if (uid === game.winner) {
+      throw new HttpsError('failed-precondition', "You're in the lead, no need to resign!");
+    }
+
+    // No word has been picked if nobody guessed yet
+    const word = answerDoc.exists ? answerDoc.get('word') : null;
+    const updates = revealIfCompleted(removePlayer(game, uid, 'resigned'), word, raceGuesses);
+
+    transaction.update(gameRef, updates);
+
+    if (updates.status === 'completed') {
+      recordWordleResult(transaction, gameId, { ...game, ...updates });
+    }
+  });
+});
+
+// Move a game on once its deadline passes. In turns, a player who has left the app
+// forfeits and one who is still around just loses the turn, which comes straight back
+// to them if nobody else can still guess. A race ends where it
+// stands once everyone has gone quiet, after anyone who left forfeits.
+export const claimWordleTimeout = onCall<ClaimWordleTimeoutRequest, Promise<void>>(async (request) => {
+  const uid = requireUid(request.auth?.uid);
+  const gameId = requireGameId(request.data.gameId);
+
+  const db = getFirestore();
+  const gameRef = db.collection(WORDLE_COLLECTION).doc(gameId);
+  const answerRef = db.collection(WORDLE_ANSWERS_COLLECTION).doc(gameId);
+
+  await db.runTransaction(async (transaction) => {
+    const [gameDoc, answerDoc] = await Promise.all([
+      transaction.get(gameRef),
+      transaction.get(answerRef)
+    ]);
+
+    const game = requireActivePlayer(gameDoc.data() as WordleGameState | undefined, uid);
+    const raceGuesses = await getRaceGuesses(transaction, gameId, game);
+
+    if (Date.now() < game.turnDeadline) {
+      throw new HttpsError('failed-precondition', "There's still time left on this turn.");
+    }
+
+    let updates: Partial<WordleGameState> = {};
+
+    if (game.mode === 'race') {
+      // Whoever set the word isn't racing, so isn't held to the idle limit
+      const racers = getRemainingPlayers(game).filter(player => player !== game.winner && player !== game.wordSetter);
+
+      for (const player of racers) {
+        if (updates.status !== 'completed' && await hasDisconnected(player)) {
+          updates = { ...updates, ...removePlayer({ ...game, ...updates }, player, 'forfeit') };
+        }
+      }
+
+      if (updates.status !== 'completed') {
+        updates = { ...updates, ...endRace({ ...game, ...updates }) };
+      }
+    } else {
+      const timedOutPlayer = game.currentPlayer;
+
+      if (await hasDisconnected(timedOutPlayer)) {
+        updates = removePlayer(game, timedOutPlayer, 'forfeit');
+      } else {
+        updates = getTimedOutTurn(game, Date.now()) || endUnsolved(game);
+      }
+    }
+
+    updates = revealIfCompleted(updates, answerDoc.exists ? answerDoc.get('word') : null, raceGuesses);
+    transaction.update(gameRef, updates);
+
+    if (updates.status === 'completed') {
+      recordWordleResult(transaction, gameId, { ...game, ...updates });
+    }
+  });
+});
+
+// Take a seat in a room the caller was invited to, while it's still waiting to start
+// and their invite is still open
+export const joinWordleRoom = onCall<WordleRoomRequest, Promise<void>>(async (request) => {
+  const uid = requireUid(request.auth?.uid);
+  const gameId = requireGameId(request.data.gameId);
+
+  const db = getFirestore();
+  const gameRef = db.collection(WORDLE_COLLECTION).doc(gameId);
+  const inviteQuery = db
+    .collection(GAME_INVITES_COLLECTION)
+    .where('gameId', '==', gameId)
+    .where('receiverId', '==', uid)
+    .limit(1);
+
+  await db.runTransaction(async (transaction) => {
+    const [gameDoc, inviteSnapshot] = await Promise.all([
+      transaction.get(gameRef),
+      transaction.get(inviteQuery)
+    ]);
+    const game = requireGame(gameDoc.data() as WordleGameState | undefined);
+
+    if (game.players.includes(uid)) return;
+
+    if (!game.invitedPlayers.includes(uid)) {
+      throw new HttpsError('permission-denied', "You weren't invited to this room.");
+    }
+
+    const invite = inviteSnapshot.empty ? undefined : inviteSnapshot.docs[0].data();
+    if (!invite || invite.status !== 'pending' || Date.now() >= invite.expiresAt) {
+      throw new HttpsError('failed-precondition', 'Your invite to this room has expired.');
+    }
+
+    if (game.status !== 'waiting') {
+      throw new HttpsError('failed-precondition', 'This game has already started.');
+    }
+
+    if (game.players.length >= MAX_ROOM_PLAYERS) {
+      throw new HttpsError('failed-precondition', 'This room is full.');
+    }
+
+    transaction.update(gameRef, {
+      players: [...game.players, uid],
+      invitedPlayers: game.invitedPlayers.filter(player => player !== uid),
+      guesses: { ...game.guesses, [uid]: [] },
+      feedback: { ...game.feedback, [uid]: [] }
+    });
+  });
+});
+
+// Start a room's game with whoever has joined; friends who haven't miss out
+export const startWordleRoom = onCall<WordleRoomRequest, Promise<void>>(async (request) => {
+  const uid = requireUid(request.auth?.uid);
+  const gameId = requireGameId(request.data.gameId);
+
+  const db = getFirestore();
+  const gameRef = db.collection(WORDLE_COLLECTION).doc(gameId);
+
+  await db.runTransaction(async (transaction) => {
+    const game = requireGame((await transaction.get(gameRef)).data() as WordleGameState | undefined);
+
+    if (game.hostId !== uid) {
+      throw new HttpsError('permission-denied', 'Only the host can start this game.');
+    }
+
+    if (game.status !== 'waiting') {
+      throw new HttpsError('failed-precondition', 'This game has already started.');
+    }
+
+    if (game.players.length < 2) {
+      throw new HttpsError('failed-precondition', 'Wait for at least one friend to join.');
+    }
+
+    transaction.update(gameRef, {
+      status: 'active',
+      invitedPlayers: [],
+      // The host goes first, unless they set the word
+      currentPlayer: getGuessers(game)[0],
+      turnDeadline: Date.now() + getTurnTimeLimit(game.mode)
+    });
+  });
+});
+
+// Save a word the caller wants a friend to guess, returning the id their invite carries
+export const createWordleCustomWord = onCall<CreateWordleCustomWordRequest, Promise<CreateWordleCustomWordResponse>>(
+  async (request) => {
+    const uid = requireUid(request.auth?.uid);
+    const wordLength = typeof request.data.word === 'string' ? request.data.word.length : 0;
+
+    if (!(WORD_LENGTH_CHOICES as readonly number[]).includes(wordLength)) {
+      throw new HttpsError('invalid-argument', `Your word must be ${WORD_LENGTH_CHOICES.join(', ')} letters long!`);
+    }
+
+    const word = requireValidGuess(request.data.word, wordLength, 'Your word');
+
+    // Not played anywhere yet; the first game to use it claims it
+    const customWord: WordleCustomWord = { ownerId: uid, word, gameId: null, createdAt: Date.now() };
+    const customWordRef = await getFirestore().collection(WORDLE_CUSTOM_WORDS_COLLECTION).add(customWord);
+
+    return { customWordId: customWordRef.id };
+  }
+);
+
+// Score a guess on today's solo puzzle and update the player's streak once it's done
+export const submitDailyWordleGuess = onCall<SubmitDailyWordleGuessRequest, Promise<SubmitWordleGuessResponse>>(
+  async (request) => {
+    const uid = requireUid(request.auth?.uid);
+    const guess = requireValidGuess(request.data.guess);
+    const date = getDailyDate();
+
+    if (request.data.date !== date) {
+      throw new HttpsError('failed-precondition', "A new puzzle is out! Reload to play today's word.");
+    }
+
+    const db = getFirestore();
+    const gameRef = db
+      .collection(DAILY_WORDLE_COLLECTION)
+      .doc(uid)
+      .collection(DAILY_WORDLE_DAYS_COLLECTION)
+      .doc(date);
+    const statsRef = db.collection(DAILY_WORDLE_STATS_COLLECTION).doc(uid);
+
+    return db.runTransaction(async (transaction) => {
+      const [gameDoc, statsDoc] = await Promise.all([
+        transaction.get(gameRef),
+        transaction.get(statsRef)
+      ]);
+
+      const game: DailyWordleGameState = gameDoc.exists
+        ? (gameDoc.data() as DailyWordleGameState)
+        : {
+            userId: uid,
+            date,
+            guesses: [],
+            feedback: [],
+            maxGuesses: DEFAULT_MAX_GUESSES,
+            status: 'active',
+            solved: false,
+            word: null,
+            createdAt: Date.now()
+          };
+
+      if (game.status === 'completed') {
+        throw new HttpsError('failed-precondition', "You've already played today's puzzle.");
+      }
+
+      const word = pickDailyAnswer(date);
+      const result = scoreGuess(guess, word);
+      const isCorrect = guess === word;
+      const guesses = [...game.guesses, guess];
+      const isFinished = isCorrect || guesses.length >= game.maxGuesses;
+
+      transaction.set(gameRef, {
+        ...game,
+        guesses,
+        feedback: [...game.feedback, encodeFeedback(result)],
+        status: isFinished ? 'completed' : 'active',
+        solved: isCorrect,
+        word: isFinished ? word : null
+      });
+
+      if (isFinished) {
+        const stats = statsDoc.exists ? (statsDoc.data() as DailyWordleStats) : createDailyWordleStats();
+        transaction.set(statsRef, recordDailyResult(stats, date, isCorrect, guesses.length));
+      }
+
+      return { result, isCorrect };
+    });
+  }
+);
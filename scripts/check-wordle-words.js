@@ -0,0 +1,73 @@
+// Fails the build if any Toilet Wordle word list has malformed, duplicated or unknown words.
+// Every list is checked against the guess dictionary for its word length.
+// Usage: node scripts/check-wordle-words.js
+import { readFileSync } from 'fs';
+
+const readJson = path => JSON.parse(readFileSync(new URL(path, import.meta.url), 'utf8'));
+
+// Answer lists and guess dictionaries for each word length. The 5-letter answers are
+// grouped by theme; the other lengths are plain lists.
+const WORD_LISTS = {
+  4: { answers: readJson('../src/games/data/wordleAnswers4.json'), dictionary: readJson('../src/games/data/wordleDictionary4.json') },
+  5: { answers: readJson('../src/games/data/wordleAnswers.json'), dictionary: readJson('../src/games/data/wordleDictionary.json') },
+  6: { answers: readJson('../src/games/data/wordleAnswers6.json'), dictionary: readJson('../src/games/data/wordleDictionary6.json') },
+  7: { answers: readJson('../src/games/data/wordleAnswers7.json'), dictionary: readJson('../src/games/data/wordleDictionary7.json') }
+};
+
+// Themed packs only hold 5-letter words
+const packs = readJson('../src/games/data/wordlePacks.json');
+const PACK_WORD_LENGTH = 5;
+
+const errors = [];
+const dictionaries = {};
+let answerCount = 0;
+let guessCount = 0;
+
+// Check one list's words are the right length, upper case and not repeated, and, when a
+// dictionary is given, that each one is in it. `seen` spans lists that mustn't overlap.
+const checkWords = (label, words, length, dictionary, seen = new Map()) => {
+  const pattern = new RegExp(`^[A-Z]{${length}}$`);
+
+  for (const word of words) {
+    if (!pattern.test(word)) {
+      errors.push(`${label}: "${word}" is not ${length} uppercase letters`);
+    } else if (dictionary && !dictionary.has(word)) {
+      errors.push(`${label}: "${word}" is not in the ${length}-letter guess dictionary`);
+    }
+
+    if (seen.has(word)) {
+      errors.push(`${label}: "${word}" is already listed${seen.get(word) === label ? '' : ` under "${seen.get(word)}"`}`);
+    } else {
+      seen.set(word, label);
+    }
+  }
+
+  return seen;
+};
+
+for (const [length, { answers, dictionary }] of Object.entries(WORD_LISTS)) {
+  // The dictionary itself must be clean, or the answer checks below mean nothing
+  dictionaries[length] = new Set(checkWords(`${length}-letter dictionary`, dictionary, length).keys());
+  guessCount += dictionaries[length].size;
+
+  const themes = Array.isArray(answers) ? { [`${length}-letter answers`]: answers } : answers;
+  const seenAnswers = new Map();
+  for (const [theme, words] of Object.entries(themes)) {
+    checkWords(theme, words, length, dictionaries[length], seenAnswers);
+  }
+  answerCount += seenAnswers.size;
+}
+
+for (const [packId, pack] of Object.entries(packs)) {
+  checkWords(`${pack.name || packId} pack`, pack.words, PACK_WORD_LENGTH, dictionaries[PACK_WORD_LENGTH]);
+}
+
+if (errors.length > 0) {
+  console.error(`Found ${errors.length} problem(s) with the Wordle word lists:`);
+  errors.forEach(error => console.error(`  - ${error}`));
+  process.exit(1);
+}
+
+console.log(
+  `Wordle word lists OK: ${answerCount} answers, ${Object.keys(packs).length} packs, ${guessCount} allowed guesses.`
+);
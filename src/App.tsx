@@ -15,6 +15,12 @@ import Friends from './pages/Friends'
 import Tweets from './pages/Tweets'
 import NotFound from './pages/NotFound'
 import Careers from './pages/Careers'
+import DailyWordle from './pages/DailyWordle'
+import PracticeWordle from './pages/PracticeWordle'
+import MyGames from './pages/MyGames'
+import GameInvites from './pages/GameInvites'
+import WordleGameSummary from './pages/WordleGameSummary'
+import WordleReplay from './pages/WordleReplay'
 
 // Context
 import { AuthProvider } from './contexts/AuthContext'
@@ -49,6 +55,12 @@ function App() {
             <Route path="friends" element={<Friends />} />
             <Route path="tweets" element={<Tweets />} />
             <Route path="careers" element={<Careers />} />
+            <Route path="daily-wordle" element={<DailyWordle />} />
+            <Route path="practice-wordle" element={<PracticeWordle />} />
+            <Route path="games" element={<MyGames />} />
+            <Route path="games/invites" element={<GameInvites />} />
+            <Route path="wordle/:gameId" element={<WordleGameSummary />} />
+            <Route path="wordle/:gameId/replay" element={<WordleReplay />} />
           </Route>
           <Route path="/login" element={<Login />} />
           <Route path="/register" element={<Register />} />
@@ -0,0 +1,25 @@
+import { GameOptionsPickerProps } from '../games/types';
+
+const BEST_OF_CHOICES = [3, 5] as const;
+
+const BestOfPicker = ({ options, onChange }: GameOptionsPickerProps) => {
+  return (
+    <div className="flex justify-center space-x-2 mb-2">
+      {BEST_OF_CHOICES.map(bestOf => (
+        <button
+          key={bestOf}
+          onClick={() => onChange({ ...options, bestOf })}
+          className={`px-3 py-1 rounded-full ${
+            options.bestOf === bestOf
+              ? 'bg-primary text-white'
+              : 'bg-gray-200 dark:bg-slate-700'
+          }`}
+        >
+          Best of {bestOf}
+        </button>
+      ))}
+    </div>
+  );
+};
+
+export default BestOfPicker;
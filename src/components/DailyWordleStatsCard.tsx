@@ -0,0 +1,73 @@
+import { useState, useEffect } from 'react';
+import { doc, onSnapshot } from 'firebase/firestore';
+import { firestore } from '../firebase/config';
+import {
+  DAILY_WORDLE_STATS_COLLECTION,
+  DailyWordleStats,
+  createDailyWordleStats,
+  getCurrentStreak,
+  getDailyDate
+} from '../games/wordle';
+
+interface DailyWordleStatsCardProps {
+  userId: string;
+  // Guess count of today's win, highlighted in the histogram
+  highlightGuessCount?: number;
+}
+
+// Played, win rate, streaks and guess distribution for the daily puzzle
+const DailyWordleStatsCard = ({ userId, highlightGuessCount }: DailyWordleStatsCardProps) => {
+  const [stats, setStats] = useState<DailyWordleStats>(createDailyWordleStats());
+
+  useEffect(() => {
+    const unsubscribe = onSnapshot(doc(firestore, DAILY_WORDLE_STATS_COLLECTION, userId), (docSnapshot) => {
+      setStats(docSnapshot.exists() ? (docSnapshot.data() as DailyWordleStats) : createDailyWordleStats());
+    }, (error) => {
+      console.error('Error loading daily Wordle stats:', error);
+    });
+
+    return () => unsubscribe();
+  }, [userId]);
+
+  const winRate = stats.played ? Math.round((stats.wins / stats.played) * 100) : 0;
+  const mostWins = Math.max(...stats.guessDistribution, 1);
+
+  const summary = [
+    { label: 'Played', value: stats.played },
+    { label: 'Win %', value: winRate },
+    { label: 'Current Streak', value: getCurrentStreak(stats, getDailyDate()) },
+    { label: 'Max Streak', value: stats.maxStreak }
+  ];
+
+  return (
+    <div>
+      <div className="grid grid-cols-2 sm:grid-cols-4 gap-4 mb-4">
+        {summary.map(({ label, value }) => (
+          <div key={label} className="bg-gray-100 dark:bg-slate-700 p-4 rounded-lg text-center">
+            <p className="text-gray-500 dark:text-gray-400 text-sm">{label}</p>
+            <p className="text-2xl font-bold">{value}</p>
+          </div>
+        ))}
+      </div>
+
+      <h3 className="text-sm font-semibold mb-2">Guess Distribution</h3>
+      <div className="space-y-1">
+        {stats.guessDistribution.map((count, index) => (
+          <div key={index} className="flex items-center text-sm">
+            <span className="w-4">{index + 1}</span>
+            <div
+              className={`ml-2 px-2 text-right text-white rounded ${
+                highlightGuessCount === index + 1 ? 'bg-green-500' : 'bg-gray-400 dark:bg-gray-600'
+              }`}
+              style={{ width: `${Math.max((count / mostWins) * 100, 8)}%` }}
+            >
+              {count}
+            </div>
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+};
+
+export default DailyWordleStatsCard;
@@ -0,0 +1,121 @@
+import { useState, useEffect } from 'react';
+import { collection, query, orderBy, limit, onSnapshot } from 'firebase/firestore';
+import { firestore } from '../firebase/config';
+import { useAuth } from '../contexts/AuthContext';
+import {
+  CHAT_COLLECTION,
+  CHAT_COOLDOWN_MS,
+  QUICK_MESSAGES,
+  CHAT_REACTIONS,
+  ChatMessage,
+  sendChatMessage
+} from '../services/chatService';
+
+// Only the latest few messages fit in the strip
+const VISIBLE_MESSAGES = 5;
+
+interface GameChatProps {
+  collectionName: string;
+  gameId: string;
+  playerNames: { [userId: string]: string };
+}
+
+// Quick messages and reactions between the players of a game, updated live
+const GameChat = ({ collectionName, gameId, playerNames }: GameChatProps) => {
+  const { currentUser } = useAuth();
+  const [messages, setMessages] = useState<ChatMessage[]>([]);
+  const [coolingDown, setCoolingDown] = useState(false);
+  const [error, setError] = useState('');
+
+  useEffect(() => {
+    const chatQuery = query(
+      collection(firestore, collectionName, gameId, CHAT_COLLECTION),
+      orderBy('createdAt', 'desc'),
+      limit(VISIBLE_MESSAGES)
+    );
+
+    const unsubscribe = onSnapshot(chatQuery, (snapshot) => {
+      setMessages(snapshot.docs
+        .map(messageDoc => ({
+          id: messageDoc.id,
+          // Show our own message straight away, before the server stamps its time
+          ...messageDoc.data({ serverTimestamps: 'estimate' })
+        } as ChatMessage))
+        .reverse());
+    }, (error) => {
+      console.error('Error listening to chat:', error);
+    });
+
+    return () => unsubscribe();
+  }, [collectionName, gameId]);
+
+  // Wait out the cooldown after each send
+  useEffect(() => {
+    if (!coolingDown) return;
+
+    const timer = setTimeout(() => setCoolingDown(false), CHAT_COOLDOWN_MS);
+    return () => clearTimeout(timer);
+  }, [coolingDown]);
+
+  const handleSend = async (kind: ChatMessage['kind'], text: string) => {
+    if (!currentUser || coolingDown) return;
+
+    setCoolingDown(true);
+    setError('');
+
+    try {
+      await sendChatMessage(collectionName, gameId, currentUser.uid, kind, text);
+    } catch (error) {
+      setError('Slow down! Wait a moment before sending another.');
+    }
+  };
+
+  const nameOf = (userId: string) =>
+    userId === currentUser?.uid ? 'You' : playerNames[userId] || 'Opponent';
+
+  return (
+    <div className="border-t border-gray-200 dark:border-gray-700 pt-3 mt-4">
+      <ul className="text-xs space-y-1 mb-2 min-h-[1rem]">
+        {messages.map(message => (
+          <li key={message.id}>
+            <span className="font-semibold">{nameOf(message.senderId)}:</span>{' '}
+            <span className={message.kind === 'reaction' ? 'text-base' : ''}>{message.text}</span>
+          </li>
+        ))}
+      </ul>
+
+      <div className="flex flex-wrap gap-1 mb-1">
+        {QUICK_MESSAGES.map(text => (
+          <button
+            key={text}
+            onClick={() => handleSend('quick', text)}
+            disabled={coolingDown}
+            className="px-2 py-1 text-xs bg-gray-100 dark:bg-slate-700 rounded-full disabled:opacity-50"
+          >
+            {text}
+          </button>
+        ))}
+      </div>
+
+      <div className="flex gap-1">
+        {CHAT_REACTIONS.map(emoji => (
+          <button
+            key={emoji}
+            onClick={() => handleSend('reaction', emoji)}
+            disabled={coolingDown}
+            className="px-2 py-1 text-lg hover:bg-gray-100 dark:hover:bg-slate-700 rounded disabled:opacity-50"
+            aria-label={`React with ${emoji}`}
+          >
+            {emoji}
+          </button>
+        ))}
+      </div>
+
+      {error && (
+        <p className="text-xs text-red-500 mt-1">{error}</p>
+      )}
+    </div>
+  );
+};
+
+export default GameChat;
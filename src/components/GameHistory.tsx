@@ -0,0 +1,128 @@
+import { useState, useEffect } from 'react';
+import { Link } from 'react-router-dom';
+import { doc, getDoc } from 'firebase/firestore';
+import { firestore } from '../firebase/config';
+import { getGameResults } from '../services/gameResultService';
+import { GameResult, OpponentRecord, getRecordsByOpponent } from '../games/results';
+
+// Finished Wordle games listed for replaying, most recent first
+const RECENT_REPLAYS_SHOWN = 5;
+
+interface GameHistoryProps {
+  userId: string;
+}
+
+// Win/loss/draw record against each opponent, from finished games
+const GameHistory = ({ userId }: GameHistoryProps) => {
+  const [records, setRecords] = useState<OpponentRecord[]>([]);
+  const [recentWordleGames, setRecentWordleGames] = useState<GameResult[]>([]);
+  const [opponentNames, setOpponentNames] = useState<{ [userId: string]: string }>({});
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState('');
+
+  useEffect(() => {
+    const fetchHistory = async () => {
+      try {
+        const results = await getGameResults(userId);
+        const opponentRecords = getRecordsByOpponent(results, userId);
+        const recentGames = results.filter(result => result.gameType === 'wordle').slice(0, RECENT_REPLAYS_SHOWN);
+        setRecords(opponentRecords);
+        setRecentWordleGames(recentGames);
+
+        // Room games list everyone who played, not just the opponents with a record
+        const opponentIds = new Set([
+          ...opponentRecords.map(record => record.opponentId),
+          ...recentGames.flatMap(result => result.players).filter(player => player !== userId)
+        ]);
+
+        const names: { [userId: string]: string } = {};
+        await Promise.all([...opponentIds].map(async opponentId => {
+          const opponentDoc = await getDoc(doc(firestore, 'users', opponentId));
+          names[opponentId] = opponentDoc.exists() ? opponentDoc.data().displayName || 'Unknown' : 'Unknown';
+        }));
+        setOpponentNames(names);
+      } catch (err) {
+        setError('Failed to load your game history');
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    fetchHistory();
+  }, [userId]);
+
+  if (loading) {
+    return <div className="animate-spin rounded-full h-8 w-8 border-t-2 border-b-2 border-primary mx-auto"></div>;
+  }
+
+  if (error) {
+    return <p className="text-red-500 text-sm">{error}</p>;
+  }
+
+  if (records.length === 0) {
+    return (
+      <p className="text-sm text-gray-500 dark:text-gray-400">
+        No finished games yet. Challenge a shitting friend from the Home page!
+      </p>
+    );
+  }
+
+  const describeResult = (result: GameResult) => {
+    if (result.winner === null) return 'Draw';
+    return result.winner === userId ? 'Won' : 'Lost';
+  };
+
+  return (
+    <>
+      <ul className="divide-y divide-gray-200 dark:divide-gray-700">
+        {records.map(record => (
+          <li key={record.opponentId} className="py-2 flex items-center justify-between">
+            <div>
+              <p className="font-medium">{opponentNames[record.opponentId] || 'Loading...'}</p>
+              <p className="text-xs text-gray-500 dark:text-gray-400">
+                Last played {new Date(record.lastPlayedAt).toLocaleDateString()}
+              </p>
+            </div>
+            <p className="text-sm">
+              <span className="text-green-600 font-semibold">{record.wins}W</span>
+              {' - '}
+              <span className="text-red-500 font-semibold">{record.losses}L</span>
+              {record.draws > 0 && (
+                <>
+                  {' - '}
+                  <span className="text-gray-500 font-semibold">{record.draws}D</span>
+                </>
+              )}
+            </p>
+          </li>
+        ))}
+      </ul>
+
+      {recentWordleGames.length > 0 && (
+        <>
+          <h3 className="text-sm font-semibold mt-4 mb-2">Recent Toilet Wordle games</h3>
+          <ul className="divide-y divide-gray-200 dark:divide-gray-700">
+            {recentWordleGames.map(result => (
+              <li key={result.gameId} className="py-2 flex items-center justify-between text-sm">
+                <span>
+                  {describeResult(result)} vs {result.players
+                    .filter(player => player !== userId)
+                    .map(player => opponentNames[player] || 'Loading...')
+                    .join(', ')}
+                  <span className="text-xs text-gray-500 dark:text-gray-400">
+                    {' · '}{new Date(result.completedAt).toLocaleDateString()}
+                  </span>
+                </span>
+                <Link to={`/wordle/${result.gameId}/replay`} className="text-primary hover:underline">
+                  Replay
+                </Link>
+              </li>
+            ))}
+          </ul>
+        </>
+      )}
+    </>
+  );
+};
+
+export default GameHistory;
@@ -1,40 +1,37 @@
 import { useState, useEffect } from 'react';
-import { doc, updateDoc, onSnapshot } from 'firebase/firestore';
+import { FirebaseError } from 'firebase/app';
+import { doc, onSnapshot } from 'firebase/firestore';
 import { firestore } from '../firebase/config';
 import { useAuth } from '../contexts/AuthContext';
+import { useGame } from '../contexts/GameContext';
 import { FaGamepad } from 'react-icons/fa';
+import { GAME_INVITES_COLLECTION, isInviteExpired, declineGameInvite } from '../services/gameService';
+import { getGame } from '../games/registry';
+import { GameInviteData } from '../models/Game';
+import wordlePacks from '../games/data/wordlePacks.json';
 
 interface GameInviteProps {
   inviteId?: string;
-  onAccept: (gameId: string, opponentId: string) => void;
   onClose: () => void;
 }
 
-interface GameInvite {
-  id: string;
-  senderId: string;
-  senderName: string;
-  receiverId: string;
-  gameType: 'wordle';
-  status: 'pending' | 'accepted' | 'rejected' | 'cancelled';
-  createdAt: number;
-}
-
-const GameInvite = ({ inviteId, onAccept, onClose }: GameInviteProps) => {
+const GameInvite = ({ inviteId, onClose }: GameInviteProps) => {
   const { currentUser } = useAuth();
-  const [invite, setInvite] = useState<GameInvite | null>(null);
+  const { acceptInvite } = useGame();
+  const [invite, setInvite] = useState<GameInviteData | null>(null);
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState('');
+  const [isExpired, setIsExpired] = useState(false);
 
   // Listen for invite changes
   useEffect(() => {
     if (!currentUser || !inviteId) return;
 
-    const inviteRef = doc(firestore, 'gameInvites', inviteId);
+    const inviteRef = doc(firestore, GAME_INVITES_COLLECTION, inviteId);
     
     const unsubscribe = onSnapshot(inviteRef, (docSnapshot) => {
       if (docSnapshot.exists()) {
-        setInvite({ id: docSnapshot.id, ...docSnapshot.data() } as GameInvite);
+        setInvite({ id: docSnapshot.id, ...docSnapshot.data() } as GameInviteData);
       } else {
         setInvite(null);
       }
@@ -48,24 +45,29 @@ const GameInvite = ({ inviteId, onAccept, onClose }: GameInviteProps) => {
     return () => unsubscribe();
   }, [currentUser, inviteId]);
 
+  // Stop offering Accept once the invite runs out of time
+  useEffect(() => {
+    if (!invite) return;
+
+    setIsExpired(isInviteExpired(invite));
+
+    if (invite.status !== 'pending') return;
+
+    const timer = setTimeout(() => setIsExpired(true), Math.max(invite.expiresAt - Date.now(), 0));
+    return () => clearTimeout(timer);
+  }, [invite]);
+
   const handleAccept = async () => {
-    if (!invite || !currentUser) return;
+    if (!invite || !currentUser || isExpired) return;
 
     try {
-      // Create a new game ID
-      const gameId = `wordle_${Date.now()}_${Math.random().toString(36).substring(2, 9)}`;
-      
-      // Update invite status
-      await updateDoc(doc(firestore, 'gameInvites', invite.id), {
-        status: 'accepted',
-        gameId
-      });
-      
-      // Notify parent component
-      onAccept(gameId, invite.senderId);
+      await acceptInvite(invite);
     } catch (error) {
       console.error('Error accepting invite:', error);
-      setError('Error accepting the invite. Please try again.');
+      // Rooms can fill up or start before the invite is answered
+      const isRejected = error instanceof FirebaseError && error.code.startsWith('functions/') &&
+        error.code !== 'functions/internal';
+      setError(isRejected ? error.message : 'Error accepting the invite. Please try again.');
     }
   };
 
@@ -73,15 +75,11 @@ const GameInvite = ({ inviteId, onAccept, onClose }: GameInviteProps) => {
     if (!invite || !currentUser) return;
 
     try {
-      // Update invite status
-      await updateDoc(doc(firestore, 'gameInvites', invite.id), {
-        status: 'rejected'
-      });
+      await declineGameInvite(invite.id);
       
       // Close the invite modal
       onClose();
     } catch (error) {
-      console.error('Error rejecting invite:', error);
       setError('Error rejecting the invite. Please try again.');
     }
   };
@@ -96,12 +94,21 @@ const GameInvite = ({ inviteId, onAccept, onClose }: GameInviteProps) => {
     );
   }
 
-  if (!invite) {
+  // The sender cancelled or the invite ran out of time before it was answered
+  const closedMessage = !invite
+    ? 'This game invite no longer exists.'
+    : invite.status === 'cancelled'
+      ? `${invite.senderName} cancelled this invite.`
+      : isExpired
+        ? 'This game invite has expired.'
+        : null;
+
+  if (!invite || closedMessage) {
     return (
       <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50">
         <div className="bg-white dark:bg-slate-800 p-6 rounded-lg shadow-lg w-full max-w-md">
           <div className="text-center">
-            <p className="mb-4">This game invite no longer exists.</p>
+            <p className="mb-4">{closedMessage}</p>
             <button 
               onClick={onClose}
               className="px-4 py-2 bg-primary text-white rounded"
@@ -130,9 +137,47 @@ const GameInvite = ({ inviteId, onAccept, onClose }: GameInviteProps) => {
           </div>
           
           <p className="mb-2">
-            <span className="font-semibold">{invite.senderName}</span> has invited you to play:
+            <span className="font-semibold">{invite.senderName}</span> has invited you
+            {invite.roomSize ? ` and ${invite.roomSize - 2} other friend${invite.roomSize === 3 ? '' : 's'}` : ''}
+            {' '}to {invite.rematchOf ? 'a rematch of' : 'play'}:
+          </p>
+          <p className="text-lg font-bold mb-4">
+            {getGame(invite.gameType)?.name || 'A game'}
+            {invite.options?.bestOf && (
+              <span className="block text-sm font-normal text-gray-500 dark:text-gray-400">
+                Best of {invite.options.bestOf}
+              </span>
+            )}
+            {invite.options?.maxGuesses && (
+              <span className="block text-sm font-normal text-gray-500 dark:text-gray-400">
+                {invite.options.maxGuesses} guesses each
+              </span>
+            )}
+            {invite.options?.mode === 'race' && (
+              <span className="block text-sm font-normal text-gray-500 dark:text-gray-400">
+                Race mode
+              </span>
+            )}
+            {invite.options?.wordLength && (
+              <span className="block text-sm font-normal text-gray-500 dark:text-gray-400">
+                {invite.options.wordLength}-letter words
+              </span>
+            )}
+            {invite.options?.hardMode && (
+              <span className="block text-sm font-normal text-gray-500 dark:text-gray-400">
+                Hard mode: revealed hints must be reused
+              </span>
+            )}
+            {invite.options?.customWordId ? (
+              <span className="block text-sm font-normal text-gray-500 dark:text-gray-400">
+                {invite.senderName} set the word for you to guess
+              </span>
+            ) : invite.options?.wordPack && invite.options.wordPack in wordlePacks && (
+              <span className="block text-sm font-normal text-gray-500 dark:text-gray-400">
+                {wordlePacks[invite.options.wordPack as keyof typeof wordlePacks].name} word pack
+              </span>
+            )}
           </p>
-          <p className="text-lg font-bold mb-4">Toilet Wordle</p>
           
           {error && (
             <p className="text-red-500 text-sm mb-4">{error}</p>
@@ -158,4 +203,4 @@ const GameInvite = ({ inviteId, onAccept, onClose }: GameInviteProps) => {
   );
 };
 
-export default GameInvite; 
\ No newline at end of file
+export default GameInvite; 
\ No newline at end of file
@@ -1,38 +1,73 @@
+import { useEffect } from 'react';
+import { useAuth } from '../contexts/AuthContext';
 import { useGame } from '../contexts/GameContext';
-import WordleGame from './WordleGame';
+import { getGame } from '../games/registry';
+import { recordUserGame } from '../services/userGamesService';
 import GameInvite from './GameInvite';
+import WordleSpectator from './WordleSpectator';
 
 const GameModal = () => {
+  const { currentUser } = useAuth();
   const { 
     activeGameId, 
     activeOpponentId, 
+    activeGameType,
+    activeGameOptions,
     activeInviteId, 
+    spectatingGameId,
+    stopSpectating,
     handleCloseGame, 
-    handleAcceptInvite, 
     handleCloseInvite 
   } = useGame();
 
+  const game = getGame(activeGameType);
+
+  // Note the open game in the user's games so it can be reopened after closing or reloading.
+  // The game itself was already created when its invite was accepted or its room opened.
+  useEffect(() => {
+    if (!currentUser || !activeGameType || !activeGameId || !activeOpponentId) return;
+
+    recordUserGame(currentUser.uid, {
+      gameId: activeGameId,
+      gameType: activeGameType,
+      opponentId: activeOpponentId,
+      options: activeGameOptions
+    }).catch(() => {});
+  }, [currentUser, activeGameType, activeGameId, activeOpponentId, activeGameOptions]);
+
+  const ActiveGame = game?.component;
+
   return (
     <>
       {/* Game Invite Modal */}
       {activeInviteId && (
         <GameInvite 
           inviteId={activeInviteId}
-          onAccept={handleAcceptInvite}
           onClose={handleCloseInvite}
         />
       )}
 
-      {/* Wordle Game Modal */}
-      {activeGameId && activeOpponentId && (
-        <WordleGame 
+      {/* Active Game Modal */}
+      {activeGameId && activeOpponentId && ActiveGame && (
+        <ActiveGame
+          key={activeGameId}
           gameId={activeGameId}
           opponentId={activeOpponentId}
+          options={activeGameOptions}
           onClose={handleCloseGame}
         />
       )}
+
+      {/* Spectator Modal, only while not playing a game of their own */}
+      {spectatingGameId && !activeGameId && (
+        <WordleSpectator
+          key={spectatingGameId}
+          gameId={spectatingGameId}
+          onClose={stopSpectating}
+        />
+      )}
     </>
   );
 };
 
-export default GameModal; 
\ No newline at end of file
+export default GameModal;
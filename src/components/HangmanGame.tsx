@@ -0,0 +1,355 @@
+import { useState, useEffect, useCallback } from 'react';
+import { useAuth } from '../contexts/AuthContext';
+import { doc, getDoc, onSnapshot } from 'firebase/firestore';
+import { FirebaseError } from 'firebase/app';
+import { firestore } from '../firebase/config';
+import { deleteGameInvite } from '../services/gameService';
+import { setHangmanWord, submitHangmanGuess } from '../services/hangmanService';
+import { GameComponentProps } from '../games/types';
+import {
+  HANGMAN_COLLECTION,
+  HANGMAN_SECRETS_COLLECTION,
+  HangmanGameState,
+  normalizeHangmanWord,
+  getHangmanWordProblem
+} from '../games/hangman';
+
+const ALPHABET = 'ABCDEFGHIJKLMNOPQRSTUVWXYZ'.split('');
+
+const renderFigure = (wrongCount: number) => (
+  <svg viewBox="0 0 120 140" className="w-32 h-36 mx-auto stroke-current text-gray-700 dark:text-gray-200" fill="none" strokeWidth={4} strokeLinecap="round">
+    {/* Gallows */}
+    <line x1="10" y1="130" x2="70" y2="130" />
+    <line x1="30" y1="130" x2="30" y2="10" />
+    <line x1="30" y1="10" x2="85" y2="10" />
+    <line x1="85" y1="10" x2="85" y2="25" />
+    {/* Figure, one part per wrong guess */}
+    {wrongCount > 0 && <circle cx="85" cy="37" r="12" />}
+    {wrongCount > 1 && <line x1="85" y1="49" x2="85" y2="85" />}
+    {wrongCount > 2 && <line x1="85" y1="58" x2="70" y2="72" />}
+    {wrongCount > 3 && <line x1="85" y1="58" x2="100" y2="72" />}
+    {wrongCount > 4 && <line x1="85" y1="85" x2="72" y2="108" />}
+    {wrongCount > 5 && <line x1="85" y1="85" x2="98" y2="108" />}
+  </svg>
+);
+
+const HangmanGame = ({ gameId, opponentId, onClose }: GameComponentProps) => {
+  const { currentUser } = useAuth();
+  const [gameState, setGameState] = useState<HangmanGameState | null>(null);
+  const [secretWord, setSecretWord] = useState<string | null>(null);
+  const [wordInput, setWordInput] = useState('');
+  const [message, setMessage] = useState('');
+  const [loading, setLoading] = useState(true);
+  const [opponentName, setOpponentName] = useState('Opponent');
+  const [showGameOver, setShowGameOver] = useState(false);
+  const [isClosing, setIsClosing] = useState(false);
+  const [modalVisible, setModalVisible] = useState(true);
+  const [submitting, setSubmitting] = useState(false);
+
+  const isSetter = Boolean(gameState && currentUser && gameState.setter === currentUser.uid);
+
+  // Get opponent's name
+  useEffect(() => {
+    const fetchOpponentName = async () => {
+      try {
+        const opponentDoc = await getDoc(doc(firestore, 'users', opponentId));
+        if (opponentDoc.exists()) {
+          setOpponentName(opponentDoc.data().displayName || 'Opponent');
+        }
+      } catch (error) {
+        console.error('Error fetching opponent name:', error);
+      }
+    };
+
+    fetchOpponentName();
+  }, [opponentId]);
+
+  // Listen for game state changes
+  useEffect(() => {
+    if (!currentUser || !gameId) return;
+
+    const gameRef = doc(firestore, HANGMAN_COLLECTION, gameId);
+
+    const unsubscribe = onSnapshot(gameRef, (docSnapshot) => {
+      if (docSnapshot.exists()) {
+        const newGameState = docSnapshot.data() as HangmanGameState;
+        setGameState(newGameState);
+
+        if (newGameState.status === 'completed') {
+          setShowGameOver(true);
+        }
+      }
+      setLoading(false);
+    }, (error) => {
+      console.error('Error listening to game updates:', error);
+      setMessage('Error connecting to the game. Please try again.');
+      setLoading(false);
+    });
+
+    return () => unsubscribe();
+  }, [currentUser, gameId]);
+
+  // Load the secret word for the setter, e.g. after a reload
+  useEffect(() => {
+    if (!isSetter || secretWord || gameState?.status !== 'active') return;
+
+    const fetchSecret = async () => {
+      try {
+        const secretDoc = await getDoc(doc(firestore, HANGMAN_SECRETS_COLLECTION, gameId));
+        if (secretDoc.exists()) {
+          setSecretWord(secretDoc.data().word);
+        }
+      } catch (error) {
+        console.error('Error fetching secret word:', error);
+      }
+    };
+
+    fetchSecret();
+  }, [isSetter, secretWord, gameState?.status, gameId]);
+
+  const handleSetWord = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    if (!gameState || !currentUser || !isSetter) return;
+
+    const word = normalizeHangmanWord(wordInput);
+    const problem = getHangmanWordProblem(word);
+
+    if (problem) {
+      setMessage(problem);
+      return;
+    }
+
+    try {
+      setSubmitting(true);
+      await setHangmanWord(gameId, word);
+
+      setSecretWord(word);
+      setWordInput('');
+      setMessage('');
+    } catch (error) {
+      const isRejected = error instanceof FirebaseError && error.code !== 'functions/internal';
+      setMessage(isRejected ? error.message : 'Error setting the word. Please try again.');
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  const handleGuess = async (letter: string) => {
+    if (!gameState || !currentUser || isSetter || gameState.status !== 'active') return;
+
+    if (gameState.guessedLetters.includes(letter)) {
+      setMessage('You already guessed that letter!');
+      return;
+    }
+
+    try {
+      setSubmitting(true);
+      await submitHangmanGuess(gameId, letter);
+      setMessage('');
+    } catch (error) {
+      const isRejected = error instanceof FirebaseError && error.code !== 'functions/internal';
+      setMessage(isRejected ? error.message : 'Error submitting your guess. Please try again.');
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  const renderPattern = (pattern: string) => (
+    <div className="flex flex-wrap justify-center mb-4">
+      {pattern.split('').map((char, i) => (
+        char === ' ' ? (
+          <div key={i} className="w-4" />
+        ) : (
+          <div key={i} className="w-7 h-9 m-0.5 flex items-end justify-center font-bold text-xl border-b-2 border-gray-400">
+            {char === '_' ? '' : char}
+          </div>
+        )
+      ))}
+    </div>
+  );
+
+  const renderLetters = () => {
+    if (!gameState) return null;
+
+    return (
+      <div className="flex flex-wrap justify-center">
+        {ALPHABET.map(letter => {
+          const isWrong = gameState.wrongLetters.includes(letter);
+          const isRight = !isWrong && gameState.guessedLetters.includes(letter);
+
+          return (
+            <button
+              key={letter}
+              onClick={() => handleGuess(letter)}
+              disabled={isWrong || isRight || submitting}
+              className={`w-8 h-10 m-1 rounded ${
+                isRight ? 'bg-green-500 text-white' : isWrong ? 'bg-gray-400 dark:bg-gray-600 line-through' : 'bg-gray-200 dark:bg-gray-700'
+              }`}
+            >
+              {letter}
+            </button>
+          );
+        })}
+      </div>
+    );
+  };
+
+  // Memoize the close handler to prevent recreating it on each render
+  const handleClose = useCallback(async () => {
+    // Prevent multiple clicks
+    if (isClosing) return;
+
+    setIsClosing(true);
+
+    // Hide the modal first to prevent the shadow gap
+    setModalVisible(false);
+
+    setTimeout(() => {
+      onClose();
+    }, 10);
+
+    // Clean up in the background after component is unmounted
+    try {
+      if (currentUser) {
+        await deleteGameInvite(currentUser.uid, gameId);
+      }
+    } catch (error) {
+      console.error('Error cleaning up game invite:', error);
+    }
+  }, [currentUser, gameId, onClose, isClosing]);
+
+  if (loading) {
+    return (
+      <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50">
+        <div className="bg-white dark:bg-slate-800 p-6 rounded-lg shadow-lg w-full max-w-md">
+          <div className="animate-spin rounded-full h-12 w-12 border-t-2 border-b-2 border-primary mx-auto"></div>
+        </div>
+      </div>
+    );
+  }
+
+  // Show game over screen
+  if (showGameOver && gameState && gameState.status === 'completed' && modalVisible) {
+    return (
+      <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50">
+        <div className="bg-white dark:bg-slate-800 p-6 rounded-lg shadow-lg w-full max-w-md">
+          <div className="flex justify-between items-center mb-4">
+            <h2 className="text-xl font-bold">Game Over</h2>
+            <button
+              onClick={handleClose}
+              disabled={isClosing}
+              className="text-gray-500 hover:text-gray-700"
+            >
+              ✕
+            </button>
+          </div>
+
+          <div className="text-center mb-6">
+            <div className="w-16 h-16 mx-auto bg-primary/10 rounded-full flex items-center justify-center mb-4 text-2xl">
+              {gameState.winner === currentUser?.uid ? '🏆' : '👏'}
+            </div>
+
+            <h3 className="text-xl font-bold mb-2">
+              {gameState.winner === currentUser?.uid
+                ? 'You Won!'
+                : `${opponentName} Won!`}
+            </h3>
+
+            {renderFigure(gameState.wrongLetters.length)}
+
+            <p className="my-4">The word was: <span className="font-bold">{gameState.word}</span></p>
+
+            <button
+              onClick={handleClose}
+              disabled={isClosing}
+              className={`px-4 py-2 ${isClosing ? 'bg-gray-400' : 'bg-primary'} text-white rounded`}
+            >
+              {isClosing ? 'Closing...' : 'Close Game'}
+            </button>
+          </div>
+        </div>
+      </div>
+    );
+  }
+
+  if (!modalVisible) {
+    return null;
+  }
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50">
+      <div className="bg-white dark:bg-slate-800 p-6 rounded-lg shadow-lg w-full max-w-md">
+        <div className="flex justify-between items-center mb-4">
+          <h2 className="text-xl font-bold">Hangman</h2>
+          <button
+            onClick={handleClose}
+            disabled={isClosing}
+            className="text-gray-500 hover:text-gray-700"
+          >
+            ✕
+          </button>
+        </div>
+
+        {gameState && (
+          <>
+            <div className="mb-4 text-center">
+              <p className="text-sm mb-2">
+                Playing against: <span className="font-semibold">{opponentName}</span>
+              </p>
+
+              <p className="text-sm">
+                {gameState.status === 'waiting'
+                  ? isSetter ? 'Pick a secret word or phrase' : `Waiting for ${opponentName} to pick a word...`
+                  : isSetter ? `${opponentName} is guessing your word` : 'Guess a letter!'}
+              </p>
+
+              {message && (
+                <p className="text-sm text-accent mt-2">{message}</p>
+              )}
+            </div>
+
+            {gameState.status === 'waiting' && isSetter && (
+              <form onSubmit={handleSetWord} className="space-y-2">
+                <input
+                  type="password"
+                  value={wordInput}
+                  onChange={e => setWordInput(e.target.value)}
+                  className="input"
+                  placeholder="Secret word or phrase"
+                  autoComplete="off"
+                  maxLength={30}
+                />
+                <button type="submit" disabled={submitting} className="btn btn-primary w-full">
+                  Set Word
+                </button>
+              </form>
+            )}
+
+            {gameState.status === 'active' && (
+              <>
+                {renderFigure(gameState.wrongLetters.length)}
+
+                <p className="text-center text-xs text-gray-500 dark:text-gray-400 mb-2">
+                  Wrong guesses: {gameState.wrongLetters.length} / {gameState.maxWrongGuesses}
+                </p>
+
+                {renderPattern(gameState.pattern)}
+
+                {isSetter ? (
+                  <p className="text-center text-sm">
+                    Your word: <span className="font-bold">{secretWord}</span>
+                  </p>
+                ) : (
+                  renderLetters()
+                )}
+              </>
+            )}
+          </>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default HangmanGame;
@@ -1,10 +1,12 @@
-import { FaToilet, FaUser, FaUserFriends, FaSignOutAlt, FaTwitter, FaBriefcase } from 'react-icons/fa';
+import { FaToilet, FaUser, FaUserFriends, FaSignOutAlt, FaTwitter, FaBriefcase, FaGamepad, FaEnvelope } from 'react-icons/fa';
 import { Link } from 'react-router-dom';
 
 import { useAuth } from '../contexts/AuthContext';
+import { useGame } from '../contexts/GameContext';
 
 const Navbar = () => {
   const { userData, logout, updateUserStatus } = useAuth();
+  const { pendingInvites } = useGame();
 
   const handleShitToggle = () => {
     if (userData) {
@@ -37,6 +39,19 @@ const Navbar = () => {
                 <FaUserFriends className="text-xl" />
               </Link>
 
+              <Link to="/games" className="text-gray-600 dark:text-gray-300 hover:text-primary" title="My Games">
+                <FaGamepad className="text-xl" />
+              </Link>
+
+              <Link to="/games/invites" className="relative text-gray-600 dark:text-gray-300 hover:text-primary" title="Game Invites">
+                <FaEnvelope className="text-xl" />
+                {pendingInvites.length > 0 && (
+                  <span className="absolute -top-2 -right-2 bg-red-500 text-white text-xs rounded-full min-w-[1.1rem] h-[1.1rem] px-1 flex items-center justify-center">
+                    {pendingInvites.length}
+                  </span>
+                )}
+              </Link>
+
               <Link to="/tweets" className="text-gray-600 dark:text-gray-300 hover:text-primary">
                 <FaTwitter className="text-xl" />
               </Link>
@@ -1,10 +1,34 @@
 import { useState, useEffect } from 'react'
 import { ref, onValue } from 'firebase/database'
-import { collection, query, where, getDocs, doc, getDoc, setDoc } from 'firebase/firestore'
+import { collection, query, where, getDocs, doc, getDoc, setDoc, onSnapshot } from 'firebase/firestore'
 import { database, firestore } from '../firebase/config'
 import { useAuth } from '../contexts/AuthContext'
 import { useGame } from '../contexts/GameContext'
-import { FaToilet, FaGamepad } from 'react-icons/fa'
+import { FaToilet, FaGamepad, FaEye } from 'react-icons/fa'
+import { GAMES, isPlayableGame, getGame } from '../games/registry'
+import { WORDLE_COLLECTION, WordleGameState } from '../games/wordle'
+import { GameInviteData } from '../models/Game'
+import {
+  GAME_INVITES_COLLECTION,
+  GAME_INVITE_EXPIRY_MS,
+  INVITE_OUTCOME_DISPLAY_MS,
+  isInviteExpired,
+  closeGameInvite,
+  createGameRoom
+} from '../services/gameService'
+
+// How the sender sees each answered invite for a few seconds after it's answered
+const INVITE_OUTCOME_LABELS: { [status: string]: { label: string; className: string } } = {
+  accepted: { label: 'Accepted!', className: 'text-green-500' },
+  rejected: { label: 'Declined', className: 'text-red-500' },
+  expired: { label: 'Expired', className: 'text-amber-500' }
+}
+
+// Games left active for longer than this were abandoned, so aren't offered for watching
+const WATCHABLE_GAME_MAX_AGE_MS = 60 * 60 * 1000
+
+// Firestore limits "array-contains-any" queries to this many values
+const MAX_IN_QUERY_VALUES = 30
 
 interface OnlineUser {
   uid: string
@@ -15,12 +39,19 @@ interface OnlineUser {
 
 const OnlineUsers = () => {
   const { currentUser, userData } = useAuth()
-  const { selectedGame } = useGame()
+  const { selectedGame, selectedGameOptions, outgoingInvites, spectateGame, handleAcceptInvite } = useGame()
   const [onlineUsers, setOnlineUsers] = useState<OnlineUser[]>([])
   const [friends, setFriends] = useState<string[]>([])
   const [loading, setLoading] = useState(true)
   const [error, setError] = useState<string | null>(null)
-  const [inviteSendingStatus, setInviteSendingStatus] = useState<{[key: string]: 'sending' | 'sent' | 'error' | 'needsSelection'}>({})
+  const [inviteSendingStatus, setInviteSendingStatus] = useState<{[key: string]: 'sending' | 'error' | 'needsSelection'}>({})
+  // The Wordle game each online friend is playing, by friend uid
+  const [watchableGames, setWatchableGames] = useState<{[userId: string]: string}>({})
+  const [watchableGamesError, setWatchableGamesError] = useState<string | null>(null)
+  // Friends picked for a room, while the user is putting one together
+  const [roomInvitees, setRoomInvitees] = useState<string[] | null>(null)
+  const [creatingRoom, setCreatingRoom] = useState(false)
+  const [now, setNow] = useState(Date.now())
 
   // Get user's friends
   useEffect(() => {
@@ -155,11 +186,56 @@ const OnlineUsers = () => {
     }
   }, [currentUser, friends])
 
+  // Only re-subscribe to friends' games when the set of online friends changes
+  const onlineUserIds = onlineUsers.map(user => user.uid).sort().join(',')
+
+  // Listen for Wordle games online friends are playing, so they can be watched
+  useEffect(() => {
+    if (!currentUser || !onlineUserIds) {
+      setWatchableGames({})
+      return
+    }
+
+    const friendIds = onlineUserIds.split(',').slice(0, MAX_IN_QUERY_VALUES)
+
+    const unsubscribe = onSnapshot(
+      query(
+        collection(firestore, WORDLE_COLLECTION),
+        where('status', '==', 'active'),
+        where('players', 'array-contains-any', friendIds)
+      ),
+      (snapshot) => {
+        const games: {[userId: string]: string} = {}
+
+        snapshot.docs.forEach(gameDoc => {
+          const game = gameDoc.data() as WordleGameState
+
+          if (!game.players.includes(currentUser.uid) && Date.now() - game.createdAt < WATCHABLE_GAME_MAX_AGE_MS) {
+            game.players
+              .filter(player => friendIds.includes(player))
+              .forEach(player => { games[player] = gameDoc.id })
+          }
+        })
+
+        setWatchableGames(games)
+        setWatchableGamesError(null)
+      },
+      (error) => {
+        // Most likely the status + players index from firestore.indexes.json isn't deployed yet
+        console.error("Error listening to friends' games:", error)
+        setWatchableGames({})
+        setWatchableGamesError("Couldn't check which friends' games you can watch.")
+      }
+    )
+
+    return () => unsubscribe()
+  }, [currentUser, onlineUserIds])
+
   const sendGameInvite = async (userId: string, userName: string) => {
     if (!currentUser || !userData) return;
     
-    // Check if Wordle is selected
-    if (selectedGame !== 'wordle') {
+    // Check if a playable game is selected
+    if (!isPlayableGame(selectedGame)) {
       setInviteSendingStatus(prev => ({ ...prev, [userId]: 'needsSelection' }));
       
       // Reset status after 3 seconds
@@ -174,32 +250,35 @@ const OnlineUsers = () => {
       return;
     }
     
+    const { buildInviteOptions } = GAMES[selectedGame]
+
     try {
       setInviteSendingStatus(prev => ({ ...prev, [userId]: 'sending' }));
       
       // Create a new invite document
-      const inviteRef = doc(collection(firestore, 'gameInvites'));
+      const inviteRef = doc(collection(firestore, GAME_INVITES_COLLECTION));
+      const createdAt = Date.now();
       
       await setDoc(inviteRef, {
         senderId: currentUser.uid,
         senderName: userData.displayName,
         receiverId: userId,
         receiverName: userName,
-        gameType: 'wordle',
+        gameType: selectedGame,
+        options: buildInviteOptions
+          ? buildInviteOptions(selectedGameOptions, currentUser.uid)
+          : selectedGameOptions,
         status: 'pending',
-        createdAt: Date.now()
+        createdAt,
+        expiresAt: createdAt + GAME_INVITE_EXPIRY_MS
       });
       
-      setInviteSendingStatus(prev => ({ ...prev, [userId]: 'sent' }));
-      
-      // Reset status after 3 seconds
-      setTimeout(() => {
-        setInviteSendingStatus(prev => {
-          const newStatus = { ...prev };
-          delete newStatus[userId];
-          return newStatus;
-        });
-      }, 3000);
+      // From here on the live invite status is shown instead
+      setInviteSendingStatus(prev => {
+        const newStatus = { ...prev };
+        delete newStatus[userId];
+        return newStatus;
+      });
       
     } catch (error) {
       console.error('Error sending game invite:', error);
@@ -216,6 +295,107 @@ const OnlineUsers = () => {
     }
   };
 
+  const cancelGameInvite = async (inviteId: string) => {
+    try {
+      await closeGameInvite(inviteId, 'cancelled')
+    } catch (error) {
+      setError('Could not cancel the invite. Please try again.')
+    }
+  }
+
+  const roomSupport = getGame(selectedGame)?.rooms
+
+  // A room is always for the selected game, so start over when it changes
+  useEffect(() => {
+    setRoomInvitees(null)
+  }, [selectedGame])
+
+  const toggleRoomInvitee = (userId: string) => {
+    setRoomInvitees(prev => prev && (prev.includes(userId)
+      ? prev.filter(id => id !== userId)
+      : [...prev, userId]))
+  }
+
+  // Create the room, invite everyone picked, and open it for the host straight away
+  const startRoom = async () => {
+    if (!currentUser || !userData || !roomInvitees || !isPlayableGame(selectedGame)) return
+
+    const { collection: collectionName, rooms } = GAMES[selectedGame]
+    if (!rooms) return
+
+    try {
+      setCreatingRoom(true)
+
+      const gameId = await createGameRoom({
+        gameType: selectedGame,
+        collectionName,
+        initialState: rooms.createRoom({
+          hostId: currentUser.uid,
+          invitedIds: roomInvitees,
+          options: selectedGameOptions
+        }),
+        options: selectedGameOptions,
+        hostId: currentUser.uid,
+        hostName: userData.displayName || 'Someone',
+        friends: onlineUsers
+          .filter(user => roomInvitees.includes(user.uid))
+          .map(({ uid, displayName }) => ({ uid, displayName }))
+      })
+
+      setRoomInvitees(null)
+      handleAcceptInvite(gameId, currentUser.uid, selectedGame, selectedGameOptions)
+    } catch (error) {
+      setError('Could not start the room. Please try again.')
+    } finally {
+      setCreatingRoom(false)
+    }
+  }
+
+  // Answered invites stay in the invite history, so only show each outcome here briefly
+  const isOutcomeShown = (invite: GameInviteData) =>
+    invite.status === 'pending' || now < (invite.respondedAt || 0) + INVITE_OUTCOME_DISPLAY_MS
+
+  // Check again once the next outcome has been shown long enough
+  useEffect(() => {
+    const hideAt = outgoingInvites
+      .filter(invite => invite.status !== 'pending')
+      .map(invite => (invite.respondedAt || 0) + INVITE_OUTCOME_DISPLAY_MS)
+      .filter(time => time > Date.now())
+
+    if (hideAt.length === 0) return
+
+    const timer = setTimeout(() => setNow(Date.now()), Math.min(...hideAt) - Date.now())
+    return () => clearTimeout(timer)
+  }, [outgoingInvites, now])
+
+  // The most recent invite sent to each friend, unless it was cancelled or answered a while ago
+  const latestInvites: { [userId: string]: GameInviteData } = {}
+  outgoingInvites
+    .filter(invite => invite.status !== 'cancelled' && isOutcomeShown(invite))
+    .sort((a, b) => a.createdAt - b.createdAt)
+    .forEach(invite => {
+      latestInvites[invite.receiverId] = invite
+    })
+
+  const renderInviteStatus = (invite: GameInviteData) => {
+    if (invite.status === 'pending' && !isInviteExpired(invite)) {
+      return (
+        <div className="flex items-center space-x-2 text-xs">
+          <span className="text-gray-500 dark:text-gray-400">Invited</span>
+          <button
+            onClick={() => cancelGameInvite(invite.id)}
+            className="text-red-500 hover:text-red-700"
+          >
+            Cancel
+          </button>
+        </div>
+      )
+    }
+
+    const outcome = INVITE_OUTCOME_LABELS[isInviteExpired(invite) ? 'expired' : invite.status]
+    return outcome ? <span className={`text-xs ${outcome.className}`}>{outcome.label}</span> : null
+  }
+
   if (loading) {
     return (
       <div className="card">
@@ -236,9 +416,31 @@ const OnlineUsers = () => {
     )
   }
 
+  const canStartRoom = Boolean(roomSupport && userData?.isShitting && onlineUsers.some(user => user.isShitting))
+
   return (
     <div className="card">
-      <h2 className="text-lg font-semibold mb-4">Friends Online</h2>
+      <div className="flex items-center justify-between mb-4">
+        <h2 className="text-lg font-semibold">Friends Online</h2>
+        {canStartRoom && (
+          <button
+            onClick={() => setRoomInvitees(roomInvitees ? null : [])}
+            className="text-xs text-primary hover:underline"
+          >
+            {roomInvitees ? 'Cancel room' : 'Start a room'}
+          </button>
+        )}
+      </div>
+      
+      {watchableGamesError && (
+        <p className="text-xs text-red-500 dark:text-red-400 mb-3">{watchableGamesError}</p>
+      )}
+      
+      {roomInvitees && roomSupport && (
+        <p className="text-xs text-gray-500 dark:text-gray-400 mb-3">
+          Pick 2 to {roomSupport.maxPlayers - 1} shitting friends to play together.
+        </p>
+      )}
       
       {onlineUsers.length === 0 ? (
         <p className="text-gray-500 dark:text-gray-400 text-sm">
@@ -269,7 +471,36 @@ const OnlineUsers = () => {
                 </div>
               </div>
               
-              {user.isShitting && userData?.isShitting && (
+              {watchableGames[user.uid] && (
+                <button
+                  onClick={() => spectateGame(watchableGames[user.uid])}
+                  className="flex items-center space-x-1 p-2 text-xs text-primary hover:bg-gray-100 dark:hover:bg-gray-700 rounded-full"
+                  title={`Watch ${user.displayName}'s game`}
+                >
+                  <FaEye />
+                  <span>Watch</span>
+                </button>
+              )}
+              
+              {roomInvitees && user.isShitting && (
+                <input
+                  type="checkbox"
+                  checked={roomInvitees.includes(user.uid)}
+                  onChange={() => toggleRoomInvitee(user.uid)}
+                  disabled={
+                    !roomInvitees.includes(user.uid) &&
+                    roomInvitees.length >= (roomSupport?.maxPlayers || 2) - 1
+                  }
+                  className="h-4 w-4 accent-primary"
+                  aria-label={`Invite ${user.displayName} to the room`}
+                />
+              )}
+              
+              {!roomInvitees && user.isShitting && userData?.isShitting && latestInvites[user.uid] && (
+                renderInviteStatus(latestInvites[user.uid])
+              )}
+              
+              {!roomInvitees && user.isShitting && userData?.isShitting && !latestInvites[user.uid] && (
                 <button 
                   onClick={() => sendGameInvite(user.uid, user.displayName)}
                   className="p-2 text-primary hover:bg-gray-100 dark:hover:bg-gray-700 rounded-full"
@@ -277,8 +508,6 @@ const OnlineUsers = () => {
                 >
                   {inviteSendingStatus[user.uid] === 'sending' ? (
                     <div className="animate-spin h-4 w-4 border-t-2 border-b-2 border-primary rounded-full"></div>
-                  ) : inviteSendingStatus[user.uid] === 'sent' ? (
-                    <span className="text-green-500 text-xs">Sent!</span>
                   ) : inviteSendingStatus[user.uid] === 'error' ? (
                     <span className="text-red-500 text-xs">Error</span>
                   ) : inviteSendingStatus[user.uid] === 'needsSelection' ? (
@@ -292,6 +521,16 @@ const OnlineUsers = () => {
           ))}
         </ul>
       )}
+      
+      {roomInvitees && (
+        <button
+          onClick={startRoom}
+          disabled={roomInvitees.length < 2 || creatingRoom}
+          className="btn btn-primary w-full mt-4 disabled:opacity-50"
+        >
+          {creatingRoom ? 'Starting room...' : `Invite ${roomInvitees.length} friends`}
+        </button>
+      )}
     </div>
   )
 }
@@ -0,0 +1,376 @@
+import { useState, useEffect, useCallback, useRef } from 'react';
+import { useAuth } from '../contexts/AuthContext';
+import { doc, getDoc, updateDoc, onSnapshot } from 'firebase/firestore';
+import { FirebaseError } from 'firebase/app';
+import { firestore } from '../firebase/config';
+import { deleteGameInvite } from '../services/gameService';
+import { revealRockPaperScissorsThrow, claimRockPaperScissorsTimeout } from '../services/rockPaperScissorsService';
+import { GameComponentProps } from '../games/types';
+import {
+  ROCK_PAPER_SCISSORS_COLLECTION,
+  RockPaperScissorsGameState,
+  Throw,
+  THROWS,
+  getCommitmentParts,
+  getStalledPlayers,
+  getForfeitDeadline
+} from '../games/rockPaperScissors';
+import {
+  createSalt,
+  hashCommitment,
+  saveCommitmentSecret,
+  getCommitmentSecret,
+  clearCommitmentSecret
+} from '../utils/commitment';
+
+const throwIcon = (value: Throw | null | undefined) =>
+  THROWS.find(option => option.id === value)?.icon || '❔';
+
+// Key under which this player's secret for a round is kept in session storage
+const commitmentKey = (gameId: string, round: number) => `${gameId}_${round}`;
+
+const RockPaperScissorsGame = ({ gameId, opponentId, onClose }: GameComponentProps) => {
+  const { currentUser } = useAuth();
+  const [gameState, setGameState] = useState<RockPaperScissorsGameState | null>(null);
+  const [message, setMessage] = useState('');
+  const [loading, setLoading] = useState(true);
+  const [opponentName, setOpponentName] = useState('Opponent');
+  const [showGameOver, setShowGameOver] = useState(false);
+  const [isClosing, setIsClosing] = useState(false);
+  const [modalVisible, setModalVisible] = useState(true);
+  const [submitting, setSubmitting] = useState(false);
+  const [now, setNow] = useState(Date.now());
+  const revealedRoundRef = useRef<number | null>(null);
+
+  // Get opponent's name
+  useEffect(() => {
+    const fetchOpponentName = async () => {
+      try {
+        const opponentDoc = await getDoc(doc(firestore, 'users', opponentId));
+        if (opponentDoc.exists()) {
+          setOpponentName(opponentDoc.data().displayName || 'Opponent');
+        }
+      } catch (error) {
+        console.error('Error fetching opponent name:', error);
+      }
+    };
+
+    fetchOpponentName();
+  }, [opponentId]);
+
+  // Listen for game state changes
+  useEffect(() => {
+    if (!currentUser || !gameId) return;
+
+    const gameRef = doc(firestore, ROCK_PAPER_SCISSORS_COLLECTION, gameId);
+
+    const unsubscribe = onSnapshot(gameRef, (docSnapshot) => {
+      if (docSnapshot.exists()) {
+        const newGameState = docSnapshot.data() as RockPaperScissorsGameState;
+        setGameState(newGameState);
+
+        if (newGameState.status === 'completed') {
+          setShowGameOver(true);
+        }
+      }
+      setLoading(false);
+    }, (error) => {
+      console.error('Error listening to game updates:', error);
+      setMessage('Error connecting to the game. Please try again.');
+      setLoading(false);
+    });
+
+    return () => unsubscribe();
+  }, [currentUser, gameId]);
+
+  // Tick while a round is open so the timeout claim shows up when the opponent stalls
+  useEffect(() => {
+    if (gameState?.status !== 'active') return;
+
+    const timer = setInterval(() => setNow(Date.now()), 1000);
+    return () => clearInterval(timer);
+  }, [gameState?.status]);
+
+  // Reveal our throw once both players have committed; the server checks it and scores the round
+  useEffect(() => {
+    if (!gameState || !currentUser || gameState.status !== 'active') return;
+
+    const bothCommitted = Boolean(gameState.commitments[currentUser.uid] && gameState.commitments[opponentId]);
+    if (!bothCommitted || gameState.reveals[currentUser.uid]) return;
+
+    // Only ask once per round, however many snapshots arrive meanwhile
+    const round = gameState.round;
+    if (revealedRoundRef.current === round) return;
+
+    const secret = getCommitmentSecret(commitmentKey(gameId, round));
+    if (!secret) {
+      setMessage("Your throw was made on another device and can't be revealed here.");
+      return;
+    }
+
+    revealedRoundRef.current = round;
+
+    const revealThrow = async () => {
+      try {
+        await revealRockPaperScissorsThrow(gameId, secret.value as Throw, secret.salt);
+        clearCommitmentSecret(commitmentKey(gameId, round));
+      } catch (error) {
+        const isRejected = error instanceof FirebaseError && error.code !== 'functions/internal';
+        setMessage(isRejected ? error.message : 'Error revealing your throw. Please reload to try again.');
+      }
+    };
+
+    revealThrow();
+  }, [gameState, currentUser, gameId, opponentId]);
+
+  const handleThrow = async (choice: Throw) => {
+    if (!gameState || !currentUser || gameState.status !== 'active') return;
+
+    if (gameState.commitments[currentUser.uid]) {
+      setMessage("You've already thrown this round!");
+      return;
+    }
+
+    try {
+      setSubmitting(true);
+
+      // Only the hash goes to Firestore, so the opponent can't see the throw yet
+      const salt = createSalt();
+      const commitment = await hashCommitment(getCommitmentParts(gameId, gameState.round, currentUser.uid, choice), salt);
+      saveCommitmentSecret(commitmentKey(gameId, gameState.round), choice, salt);
+
+      await updateDoc(doc(firestore, ROCK_PAPER_SCISSORS_COLLECTION, gameId), {
+        [`commitments.${currentUser.uid}`]: commitment
+      });
+
+      setMessage('');
+    } catch (error) {
+      console.error('Error submitting throw:', error);
+      setMessage('Error submitting your throw. Please try again.');
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  const handleClaimTimeout = async () => {
+    try {
+      setSubmitting(true);
+      await claimRockPaperScissorsTimeout(gameId);
+    } catch (error) {
+      const isRejected = error instanceof FirebaseError && error.code !== 'functions/internal';
+      setMessage(isRejected ? error.message : 'Error claiming the win. Please try again.');
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  const renderScoreboard = () => {
+    if (!gameState || !currentUser) return null;
+
+    return (
+      <div className="mb-4">
+        <div className="flex justify-center items-center space-x-6 mb-3">
+          <div className="text-center">
+            <p className="text-xs text-gray-500 dark:text-gray-400">You</p>
+            <p className="text-2xl font-bold">{gameState.scores[currentUser.uid] || 0}</p>
+          </div>
+          <p className="text-sm text-gray-500 dark:text-gray-400">Best of {gameState.bestOf}</p>
+          <div className="text-center">
+            <p className="text-xs text-gray-500 dark:text-gray-400">{opponentName}</p>
+            <p className="text-2xl font-bold">{gameState.scores[opponentId] || 0}</p>
+          </div>
+        </div>
+
+        {gameState.rounds.length > 0 && (
+          <ul className="space-y-1 text-sm">
+            {gameState.rounds.map((round, index) => (
+              <li key={index} className="flex justify-between items-center bg-gray-100 dark:bg-slate-700 px-3 py-1 rounded">
+                <span className="text-gray-500 dark:text-gray-400">Round {index + 1}</span>
+                <span>
+                  {throwIcon(round.throws[currentUser.uid])} vs {throwIcon(round.throws[opponentId])}
+                </span>
+                <span className="font-medium">
+                  {round.winner === null ? 'Tie' : round.winner === currentUser.uid ? 'You' : opponentName}
+                </span>
+              </li>
+            ))}
+          </ul>
+        )}
+      </div>
+    );
+  };
+
+  // Memoize the close handler to prevent recreating it on each render
+  const handleClose = useCallback(async () => {
+    // Prevent multiple clicks
+    if (isClosing) return;
+
+    setIsClosing(true);
+
+    // Hide the modal first to prevent the shadow gap
+    setModalVisible(false);
+
+    setTimeout(() => {
+      onClose();
+    }, 10);
+
+    // Clean up in the background after component is unmounted
+    try {
+      if (currentUser) {
+        await deleteGameInvite(currentUser.uid, gameId);
+      }
+    } catch (error) {
+      console.error('Error cleaning up game invite:', error);
+    }
+  }, [currentUser, gameId, onClose, isClosing]);
+
+  if (loading) {
+    return (
+      <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50">
+        <div className="bg-white dark:bg-slate-800 p-6 rounded-lg shadow-lg w-full max-w-md">
+          <div className="animate-spin rounded-full h-12 w-12 border-t-2 border-b-2 border-primary mx-auto"></div>
+        </div>
+      </div>
+    );
+  }
+
+  // Show game over screen
+  if (showGameOver && gameState && gameState.status === 'completed' && modalVisible) {
+    return (
+      <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50">
+        <div className="bg-white dark:bg-slate-800 p-6 rounded-lg shadow-lg w-full max-w-md">
+          <div className="flex justify-between items-center mb-4">
+            <h2 className="text-xl font-bold">Game Over</h2>
+            <button
+              onClick={handleClose}
+              disabled={isClosing}
+              className="text-gray-500 hover:text-gray-700"
+            >
+              ✕
+            </button>
+          </div>
+
+          <div className="text-center mb-6">
+            <div className="w-16 h-16 mx-auto bg-primary/10 rounded-full flex items-center justify-center mb-4 text-2xl">
+              {gameState.winner === currentUser?.uid ? '🏆' : '👏'}
+            </div>
+
+            <h3 className="text-xl font-bold mb-4">
+              {gameState.winner === currentUser?.uid
+                ? 'You Won!'
+                : `${opponentName} Won!`}
+            </h3>
+
+            {gameState.outcome === 'forfeit' && (
+              <p className="text-sm text-gray-500 dark:text-gray-400 mb-4">
+                {gameState.winner === currentUser?.uid
+                  ? `${opponentName} ran out of time.`
+                  : 'You ran out of time.'}
+              </p>
+            )}
+
+            {renderScoreboard()}
+
+            <button
+              onClick={handleClose}
+              disabled={isClosing}
+              className={`px-4 py-2 ${isClosing ? 'bg-gray-400' : 'bg-primary'} text-white rounded`}
+            >
+              {isClosing ? 'Closing...' : 'Close Game'}
+            </button>
+          </div>
+        </div>
+      </div>
+    );
+  }
+
+  if (!modalVisible) {
+    return null;
+  }
+
+  const myCommitment = gameState && currentUser ? gameState.commitments[currentUser.uid] : undefined;
+  const opponentCommitted = gameState ? Boolean(gameState.commitments[opponentId]) : false;
+  const myPendingThrow = myCommitment && gameState && currentUser
+    ? gameState.reveals[currentUser.uid]?.throw ||
+      getCommitmentSecret(commitmentKey(gameId, gameState.round))?.value as Throw | undefined
+    : undefined;
+  // The opponent can be made to forfeit once they've held up the round past its deadline
+  const canClaimTimeout = gameState && currentUser
+    ? gameState.status === 'active' &&
+      getStalledPlayers(gameState).join() === opponentId &&
+      now >= getForfeitDeadline(gameState)
+    : false;
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50">
+      <div className="bg-white dark:bg-slate-800 p-6 rounded-lg shadow-lg w-full max-w-md">
+        <div className="flex justify-between items-center mb-4">
+          <h2 className="text-xl font-bold">Rock Paper Scissors</h2>
+          <button
+            onClick={handleClose}
+            disabled={isClosing}
+            className="text-gray-500 hover:text-gray-700"
+          >
+            ✕
+          </button>
+        </div>
+
+        {gameState && (
+          <>
+            <div className="mb-4 text-center">
+              <p className="text-sm mb-2">
+                Playing against: <span className="font-semibold">{opponentName}</span>
+              </p>
+
+              <p className="text-sm">
+                Round {gameState.round}: {myCommitment
+                  ? opponentCommitted
+                    ? 'Revealing throws...'
+                    : `Waiting for ${opponentName} to throw`
+                  : opponentCommitted
+                    ? `${opponentName} has thrown. Your move!`
+                    : 'Make your throw!'}
+              </p>
+
+              {message && (
+                <p className="text-sm text-accent mt-2">{message}</p>
+              )}
+
+              {canClaimTimeout && (
+                <button
+                  onClick={handleClaimTimeout}
+                  disabled={submitting}
+                  className="mt-2 px-3 py-1 text-sm bg-accent text-white rounded"
+                >
+                  {opponentName} ran out of time. Claim the win
+                </button>
+              )}
+            </div>
+
+            {renderScoreboard()}
+
+            <div className="flex justify-center space-x-3">
+              {THROWS.map(option => (
+                <button
+                  key={option.id}
+                  onClick={() => handleThrow(option.id)}
+                  disabled={Boolean(myCommitment) || submitting}
+                  className={`w-20 h-20 flex flex-col items-center justify-center rounded-lg ${
+                    myPendingThrow === option.id
+                      ? 'bg-primary text-white'
+                      : 'bg-gray-200 dark:bg-gray-700'
+                  } disabled:opacity-75`}
+                >
+                  <span className="text-3xl">{option.icon}</span>
+                  <span className="text-xs mt-1">{option.label}</span>
+                </button>
+              ))}
+            </div>
+          </>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default RockPaperScissorsGame;
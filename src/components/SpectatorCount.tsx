@@ -0,0 +1,53 @@
+import { useState, useEffect } from 'react';
+import { collection, onSnapshot } from 'firebase/firestore';
+import { FaEye } from 'react-icons/fa';
+import { firestore } from '../firebase/config';
+import {
+  SPECTATORS_COLLECTION,
+  SPECTATOR_HEARTBEAT_MS,
+  Spectator,
+  countActiveSpectators
+} from '../services/spectatorService';
+
+interface SpectatorCountProps {
+  collectionName: string;
+  gameId: string;
+}
+
+// Live number of friends watching a game; renders nothing while nobody is
+const SpectatorCount = ({ collectionName, gameId }: SpectatorCountProps) => {
+  const [spectators, setSpectators] = useState<Spectator[]>([]);
+  const [now, setNow] = useState(Date.now());
+
+  useEffect(() => {
+    const spectatorsRef = collection(firestore, collectionName, gameId, SPECTATORS_COLLECTION);
+
+    const unsubscribe = onSnapshot(spectatorsRef, (snapshot) => {
+      setSpectators(snapshot.docs.map(spectatorDoc => spectatorDoc.data() as Spectator));
+      setNow(Date.now());
+    }, (error) => {
+      console.error('Error listening to spectators:', error);
+    });
+
+    return () => unsubscribe();
+  }, [collectionName, gameId]);
+
+  // A spectator who closes the tab leaves no snapshot behind, so recount as heartbeats go stale
+  useEffect(() => {
+    const timer = setInterval(() => setNow(Date.now()), SPECTATOR_HEARTBEAT_MS);
+    return () => clearInterval(timer);
+  }, []);
+
+  const count = countActiveSpectators(spectators, now);
+
+  if (count === 0) return null;
+
+  return (
+    <p className="text-xs text-gray-500 dark:text-gray-400 flex items-center justify-center space-x-1">
+      <FaEye />
+      <span>{count} watching</span>
+    </p>
+  );
+};
+
+export default SpectatorCount;
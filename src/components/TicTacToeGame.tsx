@@ -0,0 +1,265 @@
+import { useState, useEffect, useCallback } from 'react';
+import { useAuth } from '../contexts/AuthContext';
+import { doc, getDoc, updateDoc, onSnapshot } from 'firebase/firestore';
+import { firestore } from '../firebase/config';
+import { deleteGameInvite } from '../services/gameService';
+import { GameComponentProps } from '../games/types';
+import { TIC_TAC_TOE_COLLECTION, TicTacToeGameState, Mark, findWinningLine } from '../games/ticTacToe';
+
+const TicTacToeGame = ({ gameId, opponentId, onClose }: GameComponentProps) => {
+  const { currentUser } = useAuth();
+  const [gameState, setGameState] = useState<TicTacToeGameState | null>(null);
+  const [message, setMessage] = useState('');
+  const [loading, setLoading] = useState(true);
+  const [opponentName, setOpponentName] = useState('Opponent');
+  const [showGameOver, setShowGameOver] = useState(false);
+  const [isClosing, setIsClosing] = useState(false);
+  const [modalVisible, setModalVisible] = useState(true);
+
+  // Get opponent's name
+  useEffect(() => {
+    const fetchOpponentName = async () => {
+      try {
+        const opponentDoc = await getDoc(doc(firestore, 'users', opponentId));
+        if (opponentDoc.exists()) {
+          setOpponentName(opponentDoc.data().displayName || 'Opponent');
+        }
+      } catch (error) {
+        console.error('Error fetching opponent name:', error);
+      }
+    };
+
+    fetchOpponentName();
+  }, [opponentId]);
+
+  // Listen for game state changes
+  useEffect(() => {
+    if (!currentUser || !gameId) return;
+
+    const gameRef = doc(firestore, TIC_TAC_TOE_COLLECTION, gameId);
+
+    const unsubscribe = onSnapshot(gameRef, (docSnapshot) => {
+      if (docSnapshot.exists()) {
+        const newGameState = docSnapshot.data() as TicTacToeGameState;
+        setGameState(newGameState);
+
+        if (newGameState.status === 'completed') {
+          setShowGameOver(true);
+        }
+      }
+      setLoading(false);
+    }, (error) => {
+      console.error('Error listening to game updates:', error);
+      setMessage('Error connecting to the game. Please try again.');
+      setLoading(false);
+    });
+
+    return () => unsubscribe();
+  }, [currentUser, gameId]);
+
+  const handleCellClick = async (index: number) => {
+    if (!gameState || !currentUser) return;
+
+    if (gameState.status === 'completed') return;
+
+    // Check if it's the current user's turn
+    if (gameState.currentPlayer !== currentUser.uid) {
+      setMessage("It's not your turn!");
+      return;
+    }
+
+    if (gameState.board[index]) {
+      setMessage('That square is already taken!');
+      return;
+    }
+
+    try {
+      const gameRef = doc(firestore, TIC_TAC_TOE_COLLECTION, gameId);
+
+      const isPlayerX = currentUser.uid === gameState.playerX;
+      const mark: Mark = isPlayerX ? 'X' : 'O';
+      const nextPlayer = isPlayerX ? gameState.playerO : gameState.playerX;
+
+      const updatedBoard = [...gameState.board];
+      updatedBoard[index] = mark;
+
+      const winningLine = findWinningLine(updatedBoard);
+      const isDraw = !winningLine && updatedBoard.every(cell => cell !== '');
+
+      const updates: Partial<TicTacToeGameState> = {
+        board: updatedBoard,
+        currentPlayer: nextPlayer, // Switch turns
+      };
+
+      if (winningLine) {
+        updates.status = 'completed';
+        updates.winner = currentUser.uid;
+        updates.winningLine = winningLine;
+        setShowGameOver(true);
+      } else if (isDraw) {
+        updates.status = 'completed';
+        updates.isDraw = true;
+        setShowGameOver(true);
+      }
+
+      await updateDoc(gameRef, updates);
+
+      setMessage(winningLine ? 'You won!' : isDraw ? "It's a draw!" : '');
+    } catch (error) {
+      console.error('Error making move:', error);
+      setMessage('Error making your move. Please try again.');
+    }
+  };
+
+  const renderBoard = () => {
+    if (!gameState) return null;
+
+    const isMyTurn = gameState.status !== 'completed' && gameState.currentPlayer === currentUser?.uid;
+
+    return (
+      <div className="grid grid-cols-3 gap-2 w-56 mx-auto">
+        {gameState.board.map((cell, index) => {
+          const isWinningCell = gameState.winningLine?.includes(index);
+
+          return (
+            <button
+              key={index}
+              onClick={() => handleCellClick(index)}
+              disabled={!isMyTurn || cell !== ''}
+              className={`h-16 flex items-center justify-center text-3xl font-bold rounded ${
+                isWinningCell
+                  ? 'bg-green-500 text-white'
+                  : `bg-gray-200 dark:bg-gray-700 ${cell === 'X' ? 'text-primary' : 'text-accent'}`
+              }`}
+            >
+              {cell}
+            </button>
+          );
+        })}
+      </div>
+    );
+  };
+
+  // Memoize the close handler to prevent recreating it on each render
+  const handleClose = useCallback(async () => {
+    // Prevent multiple clicks
+    if (isClosing) return;
+
+    setIsClosing(true);
+
+    // Hide the modal first to prevent the shadow gap
+    setModalVisible(false);
+
+    setTimeout(() => {
+      onClose();
+    }, 10);
+
+    // Clean up in the background after component is unmounted
+    try {
+      if (currentUser) {
+        await deleteGameInvite(currentUser.uid, gameId);
+      }
+    } catch (error) {
+      console.error('Error cleaning up game invite:', error);
+    }
+  }, [currentUser, gameId, onClose, isClosing]);
+
+  if (loading) {
+    return (
+      <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50">
+        <div className="bg-white dark:bg-slate-800 p-6 rounded-lg shadow-lg w-full max-w-md">
+          <div className="animate-spin rounded-full h-12 w-12 border-t-2 border-b-2 border-primary mx-auto"></div>
+        </div>
+      </div>
+    );
+  }
+
+  const myMark = gameState && currentUser?.uid === gameState.playerX ? 'X' : 'O';
+
+  // Show game over screen
+  if (showGameOver && gameState && gameState.status === 'completed' && modalVisible) {
+    return (
+      <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50">
+        <div className="bg-white dark:bg-slate-800 p-6 rounded-lg shadow-lg w-full max-w-md">
+          <div className="flex justify-between items-center mb-4">
+            <h2 className="text-xl font-bold">Game Over</h2>
+            <button
+              onClick={handleClose}
+              disabled={isClosing}
+              className="text-gray-500 hover:text-gray-700"
+            >
+              ✕
+            </button>
+          </div>
+
+          <div className="text-center mb-6">
+            <div className="w-16 h-16 mx-auto bg-primary/10 rounded-full flex items-center justify-center mb-4 text-2xl">
+              {gameState.isDraw ? '🤝' : gameState.winner === currentUser?.uid ? '🏆' : '👏'}
+            </div>
+
+            <h3 className="text-xl font-bold mb-2">
+              {gameState.isDraw
+                ? "It's a Draw!"
+                : gameState.winner === currentUser?.uid
+                  ? 'You Won!'
+                  : `${opponentName} Won!`}
+            </h3>
+
+            <div className="mb-4">{renderBoard()}</div>
+
+            <button
+              onClick={handleClose}
+              disabled={isClosing}
+              className={`px-4 py-2 ${isClosing ? 'bg-gray-400' : 'bg-primary'} text-white rounded`}
+            >
+              {isClosing ? 'Closing...' : 'Close Game'}
+            </button>
+          </div>
+        </div>
+      </div>
+    );
+  }
+
+  if (!modalVisible) {
+    return null;
+  }
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50">
+      <div className="bg-white dark:bg-slate-800 p-6 rounded-lg shadow-lg w-full max-w-md">
+        <div className="flex justify-between items-center mb-4">
+          <h2 className="text-xl font-bold">Tic Tac Toe</h2>
+          <button
+            onClick={handleClose}
+            disabled={isClosing}
+            className="text-gray-500 hover:text-gray-700"
+          >
+            ✕
+          </button>
+        </div>
+
+        {gameState && (
+          <>
+            <div className="mb-4 text-center">
+              <p className="text-sm mb-2">
+                Playing against: <span className="font-semibold">{opponentName}</span> (you are <span className="font-semibold">{myMark}</span>)
+              </p>
+
+              <p className="text-sm">
+                {gameState.currentPlayer === currentUser?.uid ? 'Your turn' : `${opponentName}'s turn`}
+              </p>
+
+              {message && (
+                <p className="text-sm text-accent mt-2">{message}</p>
+              )}
+            </div>
+
+            {renderBoard()}
+          </>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default TicTacToeGame;
@@ -0,0 +1,31 @@
+import { FaEye } from 'react-icons/fa';
+import { saveColorBlindMode } from '../games/wordle';
+
+interface WordleColorBlindToggleProps {
+  enabled: boolean;
+  onChange: (enabled: boolean) => void;
+}
+
+// Switches every Wordle board between the usual colors and the high-contrast ones
+const WordleColorBlindToggle = ({ enabled, onChange }: WordleColorBlindToggleProps) => {
+  const handleToggle = () => {
+    saveColorBlindMode(!enabled);
+    onChange(!enabled);
+  };
+
+  return (
+    <button
+      onClick={handleToggle}
+      aria-pressed={enabled}
+      title="High-contrast colors with shapes"
+      className={`flex items-center space-x-1 text-xs px-2 py-1 rounded ${
+        enabled ? 'bg-primary text-white' : 'bg-gray-200 dark:bg-slate-700'
+      }`}
+    >
+      <FaEye aria-hidden="true" />
+      <span>Color-blind colors</span>
+    </button>
+  );
+};
+
+export default WordleColorBlindToggle;
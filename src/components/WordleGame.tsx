@@ -1,117 +1,89 @@
-import { useState, useEffect, useCallback } from 'react';
+import { useState, useEffect, useCallback, useRef } from 'react';
 import { useAuth } from '../contexts/AuthContext';
-import { doc, getDoc, setDoc, updateDoc, onSnapshot, collection, query, where, getDocs, deleteDoc } from 'firebase/firestore';
+import { useGame } from '../contexts/GameContext';
+import { FirebaseError } from 'firebase/app';
+import { useNavigate } from 'react-router-dom';
+import { doc, getDoc, onSnapshot } from 'firebase/firestore';
 import { firestore } from '../firebase/config';
-
-interface WordleGameProps {
-  gameId: string;
-  opponentId: string;
-  onClose: () => void;
-}
-
-interface GameState {
-  word: string;
-  currentPlayer: string;
-  player1: string;
-  player2: string;
-  player1Guesses: string[];
-  player2Guesses: string[];
-  status: 'waiting' | 'active' | 'completed';
-  winner: string | null;
-  createdAt: number;
-}
-
-const WORDS = [
-  // Bathroom fixtures and plumbing
-  'FLUSH', 'WIPES', 'BIDET', 'STOOL', 'BOWEL',
-  'POTTY', 'SQUAT', 'PLUMB', 'WATER', 'PAPER',
-  'CLEAN', 'SMELL', 'SPRAY', 'DRAIN', 'FLOAT',
-  'ROYAL', 'WASTE', 'SEWER', 'PIPES', 'VALVE',
-  'BASIN', 'FECAL', 'URINE', 'POOPS', 'POOHS',
-  'CRAPS', 'DUMPS', 'TURDS', 'DOOKS', 'LOAFS',
-  'SINKS', 'TANKS', 'SEATS', 'LATCH', 'LEVER',
-  'CHAIN', 'KNOBS', 'HINGE', 'LOCKS', 'DOORS',
-  'STALL', 'WALLS', 'TILES', 'GROUT', 'CAULK',
-  'DRIPS', 'LEAKS', 'CLOGS', 'BACKS', 'FLOWS',
-  'SWIRL', 'WHIRL', 'SPINS', 'DROPS', 'FALLS',
-  'ROLLS', 'SHEET', 'CLOTH', 'BRUSH',
-  
-  // Bathroom activities and experiences
-  'GOING', 'DOING', 'VISIT', 'BREAK', 'RELAX',
-  'EMPTY', 'PURGE', 'EXPEL', 'GRUNT',
-  'PINCH', 'PRESS', 'SHITS', 'FORCE',
-  'QUIET', 'PEACE', 'ALONE', 'SPACE',
-  'READS', 'PHONE', 'GAMES', 'TEXTS', 'WAITS',
-  'HURRY', 'QUICK', 'RUSHS', 'TARDY', 'LATER',
-  'STINK', 'ODORS', 'SCENT', 'WHIFF',
-  'FRESH', 'MISTS', 'VAPOR', 'STEAM',
-  
-  // Bathroom cleaning and maintenance
-  'SCRUB', 'MOPUP', 'RINSE', 'SHINE',
-  'GLEAM', 'GLOSS', 'SHEEN', 'SLICK', 'SLIME',
-  'GRIME', 'FILTH', 'DIRTY', 'MUCKY', 'GRIMY',
-  'STAIN', 'MARKS', 'SPOTS', 'RINGS', 'LINES',
-  'MOLDS', 'FUNGI', 'GERMS', 'VIRUS',
-  'LYSOL', 'SOAPY', 'SUDSY', 'SWIPE', 'SWEEP',
-  'FOAMS', 'BUBBL', 'FROTH', 'SWISH',
-  
-  // Toilet parts and types
-  'BOWLS', 'BASES', 'BENDS', 'TRAPS',
-  'FLAPS', 'PEDAL', 'TOUCH', 'SENSE',
-  'ROUND', 'JOHNS', 'HEADS',
-  'ROOMS', 'CABIN', 'VENTS',
-  
-  // Toilet paper and hygiene products
-  'PLUSH', 'THICK', 'ROUGH',
-  'FOLDS', 'MOIST', 'WETTY', 'DRYER', 'TOWEL',
-  'SOAPS', 'HANDS', 'PALMS', 'NAILS',
-  
-  // Plumbing and water-related
-  'FLOWS', 'DUCTS',
-  'MAINS', 'LINES', 'ROUTE',
-  'PUMPS', 'POWER', 'BOOST',
-  'GATES', 'STOPS', 'BLOCK', 'CLOGS',
-  'DRIPS', 'DROPS', 'SPILL', 'FLOOD',
-  'POOLS', 'SPINS', 'TWIST',
-  'SOUND', 'NOISE'
-];
-
-const WordleGame = ({ gameId, opponentId, onClose }: WordleGameProps) => {
-  const { currentUser } = useAuth();
-  const [gameState, setGameState] = useState<GameState | null>(null);
-  const [currentGuess, setCurrentGuess] = useState('');
+import { deleteGameInvite, declineGameInvite, requestRematch } from '../services/gameService';
+import { submitWordleGuess, resignWordleGame, claimWordleTimeout, startWordleRoom } from '../services/wordleService';
+import { GameComponentProps } from '../games/types';
+import {
+  WORDLE_COLLECTION,
+  WORDLE_RACE_GUESSES_COLLECTION,
+  WORDLE_RACE_PLAYERS_COLLECTION,
+  WORDLE_CUSTOM_WORDS_COLLECTION,
+  WordleGameState,
+  WordleRaceGuesses,
+  getKeyboardStates,
+  toScoredGuesses,
+  getGuessCount,
+  canStillWinRace,
+  getWordleStandings,
+  toEmojiGrid,
+  getGuessers,
+  getHardModeViolation,
+  loadColorBlindMode,
+  createWordleGame,
+  DEFAULT_WORD_LENGTH
+} from '../games/wordle';
+import { TweetDraft } from '../models/Tweet';
+import WordleGuessRows from './WordleGuessRows';
+import WordleGuessEntry from './WordleGuessEntry';
+import WordleColorBlindToggle from './WordleColorBlindToggle';
+import SpectatorCount from './SpectatorCount';
+import GameChat from './GameChat';
+
+// How often to ask again if the server says a turn hasn't run out yet
+const TIMEOUT_CLAIM_RETRY_MS = 5000;
+
+const FOCUSABLE_SELECTOR = 'button:not([disabled]), input:not([disabled]), a[href], [tabindex]:not([tabindex="-1"])';
+
+// Players come from the game itself, so the same component plays two-player games and rooms
+const WordleGame = ({ gameId, options, onClose }: GameComponentProps) => {
+  const { currentUser, userData } = useAuth();
+  const { pendingInvites, outgoingInvites, handleAcceptInvite } = useGame();
+  const navigate = useNavigate();
+  const [gameState, setGameState] = useState<WordleGameState | null>(null);
+  // This player's own letters in a race, which stay off the game until it ends
+  const [raceGuesses, setRaceGuesses] = useState<string[]>([]);
+  // The word this player set for the others, if they set one
+  const [customWord, setCustomWord] = useState<string | null>(null);
   const [message, setMessage] = useState('');
   const [loading, setLoading] = useState(true);
-  const [opponentName, setOpponentName] = useState('Opponent');
+  const [playerNames, setPlayerNames] = useState<{ [userId: string]: string }>({});
   const [showGameOver, setShowGameOver] = useState(false);
   const [isClosing, setIsClosing] = useState(false);
   const [modalVisible, setModalVisible] = useState(true);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [now, setNow] = useState(Date.now());
+  const [colorBlind, setColorBlind] = useState(loadColorBlindMode);
+  const lastTimeoutClaimRef = useRef(0);
+  const dialogRef = useRef<HTMLDivElement>(null);
 
-  // Get opponent's name
+  // Give focus back to whatever opened the game once it closes
   useEffect(() => {
-    const fetchOpponentName = async () => {
-      try {
-        const opponentDoc = await getDoc(doc(firestore, 'users', opponentId));
-        if (opponentDoc.exists()) {
-          setOpponentName(opponentDoc.data().displayName || 'Opponent');
-        }
-      } catch (error) {
-        console.error('Error fetching opponent name:', error);
-      }
-    };
+    const opener = document.activeElement as HTMLElement | null;
+    return () => opener?.focus();
+  }, []);
 
-    fetchOpponentName();
-  }, [opponentId]);
+  // Move focus into the dialog whenever it switches views, unless it's already inside
+  const dialogView = loading ? 'loading' : showGameOver ? 'over' : gameState?.status;
+  useEffect(() => {
+    if (dialogRef.current && !dialogRef.current.contains(document.activeElement)) {
+      dialogRef.current.focus();
+    }
+  }, [dialogView]);
 
   // Listen for game state changes
   useEffect(() => {
     if (!currentUser || !gameId) return;
 
-    const gameRef = doc(firestore, 'wordleGames', gameId);
+    const gameRef = doc(firestore, WORDLE_COLLECTION, gameId);
     
     const unsubscribe = onSnapshot(gameRef, (docSnapshot) => {
       if (docSnapshot.exists()) {
-        const newGameState = docSnapshot.data() as GameState;
+        const newGameState = docSnapshot.data() as WordleGameState;
         setGameState(newGameState);
         
         // If the game is already completed when component mounts or just completed, show the game over screen
@@ -129,181 +101,288 @@ const WordleGame = ({ gameId, opponentId, onClose }: WordleGameProps) => {
     return () => unsubscribe();
   }, [currentUser, gameId]);
 
-  // Initialize game if it doesn't exist
+  // Only refetch names when someone joins a room
+  const playerIds = gameState ? gameState.players.join(',') : '';
+
+  // Get the other players' names
   useEffect(() => {
-    const initializeGame = async () => {
-      if (!currentUser || !gameId) return;
+    if (!playerIds) return;
 
+    const fetchPlayerNames = async () => {
       try {
-        const gameRef = doc(firestore, 'wordleGames', gameId);
-        const gameDoc = await getDoc(gameRef);
-
-        if (!gameDoc.exists()) {
-          // Select a random word
-          const randomWord = WORDS[Math.floor(Math.random() * WORDS.length)];
-          
-          // Create new game
-          const newGameState: GameState = {
-            word: randomWord,
-            currentPlayer: currentUser.uid,
-            player1: currentUser.uid,
-            player2: opponentId,
-            player1Guesses: [],
-            player2Guesses: [],
-            status: 'active',
-            winner: null,
-            createdAt: Date.now()
-          };
-
-          await setDoc(gameRef, newGameState);
-        }
+        const names: { [userId: string]: string } = {};
+        await Promise.all(playerIds.split(',').map(async (playerId) => {
+          const playerDoc = await getDoc(doc(firestore, 'users', playerId));
+          names[playerId] = playerDoc.exists() ? playerDoc.data().displayName || 'Opponent' : 'Opponent';
+        }));
+        setPlayerNames(names);
       } catch (error) {
-        console.error('Error initializing game:', error);
-        setMessage('Error creating the game. Please try again.');
+        console.error('Error fetching player names:', error);
       }
     };
 
-    initializeGame();
-  }, [currentUser, gameId, opponentId]);
+    fetchPlayerNames();
+  }, [playerIds]);
 
-  const handleKeyPress = (key: string) => {
-    if (currentGuess.length < 5 && /^[A-Za-z]$/.test(key)) {
-      setCurrentGuess(prev => prev + key.toUpperCase());
-    }
-  };
+  const nameOf = (playerId: string | null) =>
+    playerId === currentUser?.uid ? 'You' : (playerId && playerNames[playerId]) || 'Opponent';
 
-  const handleBackspace = () => {
-    setCurrentGuess(prev => prev.slice(0, -1));
-  };
+  const opponents = gameState ? gameState.players.filter(player => player !== currentUser?.uid) : [];
+  const isSetter = !!gameState && gameState.wordSetter === currentUser?.uid;
+  const customWordId = isSetter ? gameState?.customWordId : null;
+  // A room may still end up with two players, but it's only head-to-head once it starts with two
+  const isRoom = gameState ? gameState.status === 'waiting' || gameState.players.length > 2 : false;
+  const opponentId = isRoom ? null : opponents[0] || null;
+  const opponentName = nameOf(opponentId);
+  const hasLeft = gameState && currentUser ? gameState.leftPlayers.includes(currentUser.uid) : false;
+
+  const isActive = gameState?.status === 'active';
+  const isRace = gameState?.mode === 'race';
+  const turnDeadline = gameState?.turnDeadline;
+
+  // Show the player who set the word what they picked, e.g. after a reload
+  useEffect(() => {
+    if (!customWordId) return;
+
+    getDoc(doc(firestore, WORDLE_CUSTOM_WORDS_COLLECTION, customWordId))
+      .then(customWordDoc => setCustomWord(customWordDoc.exists() ? customWordDoc.data().word : null))
+      .catch(error => console.error('Error fetching custom word:', error));
+  }, [customWordId]);
+
+  // Follow this player's private letters while a race is on
+  useEffect(() => {
+    if (!currentUser || !isRace || !isActive) return;
+
+    const raceRef = doc(firestore, WORDLE_RACE_GUESSES_COLLECTION, gameId, WORDLE_RACE_PLAYERS_COLLECTION, currentUser.uid);
+
+    const unsubscribe = onSnapshot(raceRef, (docSnapshot) => {
+      setRaceGuesses(docSnapshot.exists() ? (docSnapshot.data() as WordleRaceGuesses).guesses : []);
+    }, (error) => {
+      console.error('Error listening to race guesses:', error);
+    });
 
-  const handleSubmitGuess = async () => {
-    if (!gameState || !currentUser) return;
+    return () => unsubscribe();
+  }, [currentUser, gameId, isRace, isActive]);
+
+  // Tick the turn countdown while the game is on
+  useEffect(() => {
+    if (!isActive) return;
+
+    const timer = setInterval(() => setNow(Date.now()), 1000);
+    return () => clearInterval(timer);
+  }, [isActive]);
+
+  // Once a turn runs out, have the server pass it on, or drop the player if they've left.
+  // Any player may ask, so the game moves on even if some of them have closed the tab.
+  useEffect(() => {
+    if (!isActive || hasLeft || !turnDeadline || now < turnDeadline) return;
+
+    // Ask again now and then, in case this clock runs ahead of the server's
+    if (now - lastTimeoutClaimRef.current < TIMEOUT_CLAIM_RETRY_MS) return;
+    lastTimeoutClaimRef.current = now;
+
+    claimWordleTimeout(gameId).catch(() => {});
+  }, [isActive, hasLeft, turnDeadline, now, gameId]);
+
+  const handleSubmitGuess = async (guess: string): Promise<boolean> => {
+    if (!gameState || !currentUser) return false;
     
-    // Check if it's the current user's turn
-    if (gameState.currentPlayer !== currentUser.uid) {
+    // Check if it's the current user's turn; in a race everyone guesses at once
+    if (!isRace && gameState.currentPlayer !== currentUser.uid) {
       setMessage("It's not your turn!");
-      return;
+      return false;
     }
 
-    // Validate guess
-    if (currentGuess.length !== 5) {
-      setMessage('Your guess must be 5 letters!');
-      return;
-    }
+    setIsSubmitting(true);
 
     try {
-      const gameRef = doc(firestore, 'wordleGames', gameId);
-      
-      // Determine which player is making the guess
-      const isPlayer1 = currentUser.uid === gameState.player1;
-      const playerGuessesField = isPlayer1 ? 'player1Guesses' : 'player2Guesses';
-      const opponentId = isPlayer1 ? gameState.player2 : gameState.player1;
+      // The server scores the guess and records it, so the answer never reaches this browser
+      const { isCorrect } = await submitWordleGuess(gameId, guess);
       
-      // Update game state with the new guess
-      const updatedGuesses = [...(isPlayer1 ? gameState.player1Guesses : gameState.player2Guesses), currentGuess];
-      
-      // Check if the guess is correct
-      const isCorrect = currentGuess === gameState.word;
-      
-      const updates: any = {
-        [playerGuessesField]: updatedGuesses,
-        currentPlayer: opponentId, // Switch turns
-      };
-      
-      // If the guess is correct, end the game
-      if (isCorrect) {
-        updates.status = 'completed';
-        updates.winner = currentUser.uid;
-        // Set showGameOver to true immediately to prevent double rendering
-        setShowGameOver(true);
-      }
-      
-      await updateDoc(gameRef, updates);
-      
-      // Reset current guess
-      setCurrentGuess('');
       setMessage(isCorrect ? 'You won!' : 'Guess submitted!');
-      
+      return true;
     } catch (error) {
-      console.error('Error submitting guess:', error);
-      setMessage('Error submitting your guess. Please try again.');
+      // Rejections from the server (wrong turn, game over) carry a message meant for the player
+      const isRejected = error instanceof FirebaseError && error.code !== 'functions/internal';
+      setMessage(isRejected ? error.message : 'Error submitting your guess. Please try again.');
+      return false;
+    } finally {
+      setIsSubmitting(false);
     }
   };
 
-  const renderGuessResult = (guess: string) => {
-    if (!gameState) return null;
-    
-    return (
-      <div className="flex justify-center mb-2">
-        {guess.split('').map((letter, i) => {
-          let bgColor = 'bg-gray-300 dark:bg-gray-700';
-          
-          if (gameState.word[i] === letter) {
-            bgColor = 'bg-green-500';
-          } else if (gameState.word.includes(letter)) {
-            bgColor = 'bg-yellow-500';
-          }
-          
-          return (
-            <div 
-              key={i} 
-              className={`${bgColor} w-10 h-10 m-1 flex items-center justify-center font-bold text-lg rounded`}
-            >
-              {letter}
-            </div>
-          );
-        })}
-      </div>
-    );
+  const handleResign = async () => {
+    if (!gameState || gameState.status === 'completed' || isSubmitting) return;
+
+    const consequence = isRoom ? "You'll drop out and the others play on." : `${opponentName} will win.`;
+    if (!window.confirm(`Resign this game? ${consequence}`)) return;
+
+    setIsSubmitting(true);
+
+    try {
+      await resignWordleGame(gameId);
+    } catch (error) {
+      setMessage('Error resigning the game. Please try again.');
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  const handleStartRoom = async () => {
+    if (isSubmitting) return;
+
+    setIsSubmitting(true);
+
+    try {
+      await startWordleRoom(gameId);
+    } catch (error) {
+      const isRejected = error instanceof FirebaseError && error.code !== 'functions/internal';
+      setMessage(isRejected ? error.message : 'Error starting the game. Please try again.');
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  // Headline and explanation for how a completed game ended
+  const describeOutcome = (state: WordleGameState) => {
+    const isWinner = state.winner === currentUser?.uid;
+    const title = isWinner ? 'You Won!' : `${nameOf(state.winner)} Won!`;
+
+    if (state.outcome === 'stumped') {
+      return {
+        icon: isWinner ? '🧠' : '😵',
+        title,
+        detail: isWinner ? 'Nobody found your word.' : `Nobody found ${nameOf(state.winner)}'s word.`
+      };
+    }
+
+    if (state.outcome === 'draw') {
+      return {
+        icon: '🤝',
+        title: "It's a Draw!",
+        detail: isRoom ? 'Nobody found the word.' : 'Neither of you found the word.'
+      };
+    }
+
+    if (isRoom && (state.outcome === 'resigned' || state.outcome === 'forfeit')) {
+      return {
+        icon: isWinner ? '🏆' : '🚪',
+        title,
+        detail: isWinner ? 'Everyone else left the game.' : `${nameOf(state.winner)} was the last one left.`
+      };
+    }
+
+    if (state.outcome === 'resigned') {
+      return {
+        icon: isWinner ? '🏆' : '🏳️',
+        title,
+        detail: isWinner ? `${opponentName} resigned.` : 'You resigned.'
+      };
+    }
+
+    if (state.outcome === 'forfeit') {
+      return {
+        icon: isWinner ? '🏆' : '🚪',
+        title,
+        detail: isWinner ? `${opponentName} left the game.` : 'You were away too long and forfeited.'
+      };
+    }
+
+    if (state.mode === 'race' && state.winner) {
+      const guessCount = getGuessCount(state, state.winner);
+      return {
+        icon: isWinner ? '🏆' : '👏',
+        title,
+        detail: `${isWinner ? 'You' : nameOf(state.winner)} solved it in ${guessCount} guess${guessCount === 1 ? '' : 'es'}, the fewest of anyone.`
+      };
+    }
+
+    return {
+      icon: isWinner ? '🏆' : '👏',
+      title,
+      detail: isWinner ? 'You found the word!' : `${nameOf(state.winner)} found the word first.`
+    };
+  };
+
+  // Rematch invites linked to this game, in either direction
+  const incomingRematch = pendingInvites.find(invite => invite.rematchOf === gameId);
+  const outgoingRematch = outgoingInvites.find(invite => invite.rematchOf === gameId);
+
+  const handleRematch = async () => {
+    if (!gameState || !currentUser || !opponentId || isSubmitting) return;
+
+    const { customWordId: _customWordId, setterId: _setterId, ...rematchOptions } = options;
+    setIsSubmitting(true);
+
+    try {
+      const acceptedInvite = await requestRematch({
+        previousGameId: gameId,
+        gameType: 'wordle',
+        game: { collection: WORDLE_COLLECTION, createInitialState: createWordleGame },
+        // Whoever went second last time goes first, with a word from the pack this time
+        options: { ...rematchOptions, firstPlayerId: gameState.players[1] },
+        currentUserId: currentUser.uid,
+        currentUserName: userData?.displayName || 'Someone',
+        opponentId,
+        opponentName
+      });
+
+      // Both players asked, so start the new game right away
+      if (acceptedInvite?.gameId) {
+        handleAcceptInvite(acceptedInvite.gameId, opponentId, 'wordle', acceptedInvite.options);
+        deleteGameInvite(currentUser.uid, gameId).catch(() => {});
+      }
+    } catch (error) {
+      setMessage('Error asking for a rematch. Please try again.');
+    } finally {
+      setIsSubmitting(false);
+    }
   };
 
-  const renderKeyboard = () => {
-    const rows = [
-      ['Q', 'W', 'E', 'R', 'T', 'Y', 'U', 'I', 'O', 'P'],
-      ['A', 'S', 'D', 'F', 'G', 'H', 'J', 'K', 'L'],
-      ['Z', 'X', 'C', 'V', 'B', 'N', 'M']
-    ];
+  const renderRematch = () => {
+    if (outgoingRematch?.status === 'pending') {
+      return <p className="text-sm mb-4">Waiting for {opponentName} to accept the rematch...</p>;
+    }
 
     return (
-      <div className="mt-4">
-        {rows.map((row, rowIndex) => (
-          <div key={rowIndex} className="flex justify-center mb-2">
-            {rowIndex === 2 && (
-              <button
-                onClick={handleSubmitGuess}
-                className="px-4 py-2 bg-primary text-white rounded mr-1"
-                disabled={currentGuess.length !== 5 || (gameState && gameState.currentPlayer !== currentUser?.uid) || false}
-              >
-                Enter
-              </button>
-            )}
-            
-            {row.map(key => (
-              <button
-                key={key}
-                onClick={() => handleKeyPress(key)}
-                className="w-8 h-10 m-1 bg-gray-200 dark:bg-gray-700 rounded"
-                disabled={currentGuess.length >= 5 || (gameState && gameState.currentPlayer !== currentUser?.uid) || false}
-              >
-                {key}
-              </button>
-            ))}
-            
-            {rowIndex === 2 && (
-              <button
-                onClick={handleBackspace}
-                className="px-4 py-2 bg-gray-300 dark:bg-gray-600 rounded ml-1"
-                disabled={currentGuess.length === 0 || (gameState && gameState.currentPlayer !== currentUser?.uid) || false}
-              >
-                ←
-              </button>
-            )}
-          </div>
-        ))}
+      <div className="mb-4">
+        {incomingRematch ? (
+          <p className="text-sm mb-2">{opponentName} wants a rematch!</p>
+        ) : outgoingRematch?.status === 'rejected' ? (
+          <p className="text-sm text-red-500 mb-2">{opponentName} declined the rematch.</p>
+        ) : outgoingRematch?.status === 'expired' && (
+          <p className="text-sm text-amber-500 mb-2">Your rematch request expired.</p>
+        )}
+        <button
+          onClick={handleRematch}
+          disabled={isSubmitting || isClosing}
+          className="px-4 py-2 bg-accent text-white rounded"
+        >
+          {incomingRematch ? 'Accept Rematch' : outgoingRematch ? 'Ask Again' : 'Rematch'}
+        </button>
       </div>
     );
   };
 
+  // Where everyone finished in a room
+  const renderStandings = (state: WordleGameState) => (
+    <ol className="text-sm text-left mb-4 space-y-1">
+      {getWordleStandings(state).map((playerId, index) => (
+        <li key={playerId} className="flex justify-between">
+          <span>
+            {index + 1}. <span className="font-semibold">{nameOf(playerId)}</span>
+            {state.leftPlayers.includes(playerId) && (
+              <span className="text-gray-500 dark:text-gray-400"> (left)</span>
+            )}
+          </span>
+          <span className="text-gray-500 dark:text-gray-400">
+            {getGuessCount(state, playerId)} guesses
+          </span>
+        </li>
+      ))}
+    </ol>
+  );
+
   // Memoize the close handler to prevent recreating it on each render
   const handleClose = useCallback(async () => {
     // Prevent multiple clicks
@@ -323,41 +402,81 @@ const WordleGame = ({ gameId, opponentId, onClose }: WordleGameProps) => {
     // Clean up in the background after component is unmounted
     try {
       if (currentUser) {
-        // Check if user is sender
-        const senderQuery = query(
-          collection(firestore, 'gameInvites'),
-          where('senderId', '==', currentUser.uid),
-          where('gameId', '==', gameId)
-        );
-        
-        const senderResults = await getDocs(senderQuery);
-        
-        if (!senderResults.empty) {
-          await deleteDoc(doc(firestore, 'gameInvites', senderResults.docs[0].id));
-        } else {
-          // Check if user is receiver
-          const receiverQuery = query(
-            collection(firestore, 'gameInvites'),
-            where('receiverId', '==', currentUser.uid),
-            where('gameId', '==', gameId)
-          );
-          
-          const receiverResults = await getDocs(receiverQuery);
-          
-          if (!receiverResults.empty) {
-            await deleteDoc(doc(firestore, 'gameInvites', receiverResults.docs[0].id));
-          }
-        }
+        await deleteGameInvite(currentUser.uid, gameId);
+      }
+
+      // Leaving turns down a rematch the opponent asked for
+      if (incomingRematch) {
+        await declineGameInvite(incomingRematch.id);
       }
     } catch (error) {
       console.error('Error cleaning up game invite:', error);
     }
-  }, [currentUser, gameId, onClose, isClosing]);
+  }, [currentUser, gameId, onClose, isClosing, incomingRematch]);
+
+  // Keep Tab inside the dialog, and let Escape close it like the ✕ button
+  const handleDialogKeyDown = (e: React.KeyboardEvent<HTMLDivElement>) => {
+    if (e.key === 'Escape') {
+      e.preventDefault();
+      handleClose();
+      return;
+    }
+
+    if (e.key !== 'Tab' || !dialogRef.current) return;
+
+    const focusable = Array.from(dialogRef.current.querySelectorAll<HTMLElement>(FOCUSABLE_SELECTOR));
+    if (focusable.length === 0) {
+      e.preventDefault();
+      return;
+    }
+
+    const first = focusable[0];
+    const last = focusable[focusable.length - 1];
+    if (e.shiftKey && (document.activeElement === first || document.activeElement === dialogRef.current)) {
+      e.preventDefault();
+      last.focus();
+    } else if (!e.shiftKey && document.activeElement === last) {
+      e.preventDefault();
+      first.focus();
+    }
+  };
+
+  const dialogProps = {
+    ref: dialogRef,
+    role: 'dialog',
+    'aria-modal': true,
+    'aria-labelledby': 'wordle-dialog-title',
+    tabIndex: -1,
+    onKeyDown: handleDialogKeyDown
+  };
+
+  // Open a tweet prefilled with this player's colors and a link to the game, but no letters
+  const handleShare = (state: WordleGameState) => {
+    if (!currentUser) return;
+
+    const score = state.winner === currentUser.uid ? getGuessCount(state, currentUser.uid) : 'X';
+    const wordLength = state.wordLength || DEFAULT_WORD_LENGTH;
+    const variant = [
+      state.mode === 'race' ? ' race' : '',
+      wordLength !== DEFAULT_WORD_LENGTH ? ` (${wordLength} letters)` : ''
+    ].join('');
+    // A star marks a hard mode score, like the original game
+    const draft: TweetDraft = {
+      content: [
+        `Toilet Wordle${variant} ${score}/${state.maxGuesses}${state.hardMode ? '*' : ''} vs ${opponents.map(nameOf).join(', ')}`,
+        toEmojiGrid(state.feedback[currentUser.uid] || [], colorBlind)
+      ].join('\n\n'),
+      link: `/wordle/${gameId}`
+    };
+
+    handleClose();
+    navigate('/tweets', { state: draft });
+  };
 
   if (loading) {
     return (
       <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50">
-        <div className="bg-white dark:bg-slate-800 p-6 rounded-lg shadow-lg w-full max-w-md">
+        <div {...dialogProps} aria-label="Loading Toilet Wordle" className="bg-white dark:bg-slate-800 p-6 rounded-lg shadow-lg w-full max-w-md focus:outline-none">
           <div className="animate-spin rounded-full h-12 w-12 border-t-2 border-b-2 border-primary mx-auto"></div>
         </div>
       </div>
@@ -366,15 +485,18 @@ const WordleGame = ({ gameId, opponentId, onClose }: WordleGameProps) => {
 
   // Show game over screen
   if (showGameOver && gameState && gameState.status === 'completed' && modalVisible) {
+    const outcome = describeOutcome(gameState);
+
     return (
       <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50">
-        <div className="bg-white dark:bg-slate-800 p-6 rounded-lg shadow-lg w-full max-w-md">
+        <div {...dialogProps} className="bg-white dark:bg-slate-800 p-6 rounded-lg shadow-lg w-full max-w-md focus:outline-none">
           <div className="flex justify-between items-center mb-4">
-            <h2 className="text-xl font-bold">Game Over</h2>
+            <h2 id="wordle-dialog-title" className="text-xl font-bold">Game Over</h2>
             <button 
               onClick={handleClose} 
               disabled={isClosing}
-              className="text-gray-500 hover:text-gray-700"
+              aria-label="Close"
+            className="text-gray-500 hover:text-gray-700"
             >
               ✕
             </button>
@@ -382,104 +504,268 @@ const WordleGame = ({ gameId, opponentId, onClose }: WordleGameProps) => {
           
           <div className="text-center mb-6">
             <div className="w-16 h-16 mx-auto bg-primary/10 rounded-full flex items-center justify-center mb-4 text-2xl">
-              {gameState.winner === currentUser?.uid ? '🏆' : '👏'}
+              {outcome.icon}
             </div>
             
-            <h3 className="text-xl font-bold mb-2">
-              {gameState.winner === currentUser?.uid 
-                ? 'You Won!' 
-                : `${opponentName} Won!`}
-            </h3>
+            <h3 className="text-xl font-bold mb-2">{outcome.title}</h3>
+            
+            <p className="text-sm text-gray-500 dark:text-gray-400 mb-2">{outcome.detail}</p>
             
-            <p className="mb-4">The word was: <span className="font-bold">{gameState.word}</span></p>
+            {gameState.word && (
+              <p className="mb-4">The word was: <span className="font-bold">{gameState.word}</span></p>
+            )}
+            
+            {isRoom ? renderStandings(gameState) : renderRematch()}
             
+            <div className="flex justify-center space-x-2">
+              {!isSetter && (
+                <button
+                  onClick={() => handleShare(gameState)}
+                  disabled={isClosing}
+                  className="px-4 py-2 bg-gray-200 dark:bg-slate-700 rounded"
+                >
+                  Share
+                </button>
+              )}
+              <button 
+                onClick={handleClose}
+                disabled={isClosing}
+                className={`px-4 py-2 ${isClosing ? 'bg-gray-400' : 'bg-primary'} text-white rounded`}
+              >
+                {isClosing ? 'Closing...' : 'Close Game'}
+              </button>
+            </div>
+          </div>
+        </div>
+      </div>
+    );
+  }
+
+  if (!modalVisible) {
+    return null;
+  }
+
+  // Room lobby, until the host starts the game
+  if (gameState && gameState.status === 'waiting') {
+    const isHost = gameState.hostId === currentUser?.uid;
+
+    return (
+      <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50">
+        <div {...dialogProps} className="bg-white dark:bg-slate-800 p-6 rounded-lg shadow-lg w-full max-w-md focus:outline-none">
+          <div className="flex justify-between items-center mb-4">
+            <h2 id="wordle-dialog-title" className="text-xl font-bold">Toilet Wordle Room</h2>
             <button 
               onClick={handleClose}
               disabled={isClosing}
-              className={`px-4 py-2 ${isClosing ? 'bg-gray-400' : 'bg-primary'} text-white rounded`}
+              aria-label="Close"
+            className="text-gray-500 hover:text-gray-700"
             >
-              {isClosing ? 'Closing...' : 'Close Game'}
+              ✕
             </button>
           </div>
+
+          <div className="text-center">
+            <h3 className="text-sm font-semibold mb-2">Players ({gameState.players.length})</h3>
+            <ul className="text-sm mb-2">
+              {gameState.players.map(playerId => (
+                <li key={playerId}>
+                  {nameOf(playerId)}
+                  {playerId === gameState.hostId && (
+                    <span className="text-gray-500 dark:text-gray-400"> (host)</span>
+                  )}
+                </li>
+              ))}
+            </ul>
+            
+            {gameState.invitedPlayers.length > 0 && (
+              <p className="text-xs text-gray-500 dark:text-gray-400 mb-4">
+                Waiting on {gameState.invitedPlayers.length} more invited friend{gameState.invitedPlayers.length === 1 ? '' : 's'}...
+              </p>
+            )}
+            
+            {message && (
+              <p role="status" className="text-sm text-accent mb-4">{message}</p>
+            )}
+            
+            {isHost ? (
+              <button
+                onClick={handleStartRoom}
+                disabled={isSubmitting || gameState.players.length < 2}
+                className="px-4 py-2 bg-primary text-white rounded disabled:opacity-50"
+              >
+                Start Game
+              </button>
+            ) : (
+              <p className="text-sm">Waiting for {nameOf(gameState.hostId)} to start the game...</p>
+            )}
+          </div>
         </div>
       </div>
     );
   }
 
-  if (!modalVisible) {
-    return null;
-  }
+  const myGuessCount = gameState && currentUser ? getGuessCount(gameState, currentUser.uid) : 0;
+  const guessesLeft = gameState ? gameState.maxGuesses - myGuessCount : 0;
+  const secondsLeft = gameState ? Math.max(Math.ceil((gameState.turnDeadline - now) / 1000), 0) : 0;
+  const canGuess = gameState && currentUser
+    ? isRace ? canStillWinRace(gameState, currentUser.uid) : gameState.currentPlayer === currentUser.uid
+    : false;
+
+  // Letters for a player's board; a racer's own come from their private doc until the end
+  const guessesOf = (state: WordleGameState, playerId: string) =>
+    isRace && state.status !== 'completed' && playerId === currentUser?.uid
+      ? raceGuesses
+      : state.guesses[playerId] || [];
+
+  // Color each key by what any player's guesses have revealed about it
+  const keyStates = gameState
+    ? getKeyboardStates(gameState.players.flatMap(playerId =>
+        toScoredGuesses(guessesOf(gameState, playerId), gameState.feedback[playerId] || [])
+      ))
+    : {};
+
+  // Hard mode only holds a player to the hints their own guesses revealed
+  const checkHardMode = gameState?.hardMode && currentUser
+    ? (guess: string) => getHardModeViolation(
+        guess,
+        toScoredGuesses(guessesOf(gameState, currentUser.uid), gameState.feedback[currentUser.uid] || [])
+      )
+    : undefined;
+
+  const describeRace = (state: WordleGameState) => {
+    if (!state.winner) return 'Race on! Everyone guesses at once';
+    if (state.winner === currentUser?.uid) return "You're in the lead! Waiting for the others to finish";
+
+    const leader = `${nameOf(state.winner)} solved it in ${getGuessCount(state, state.winner)}`;
+    return canGuess ? `${leader}. Solve it in fewer to win!` : `${leader}. Waiting for the others to finish`;
+  };
+
+  const describeTurn = (state: WordleGameState) => {
+    if (state.status === 'completed') return `Game over! ${describeOutcome(state).title}`;
+    if (isSetter && isRace) {
+      return state.winner
+        ? `${nameOf(state.winner)} found your word in ${getGuessCount(state, state.winner)}`
+        : 'Race on! Nobody has found your word yet';
+    }
+    if (isSetter) return `${nameOf(state.currentPlayer)} is guessing your word`;
+    if (isRace) return hasLeft ? "You've left this race." : describeRace(state);
+    if (hasLeft) return `You've left this game. ${nameOf(state.currentPlayer)}'s turn`;
+    if (state.currentPlayer === currentUser?.uid) return 'Your turn';
+    if (guessesLeft === 0) return `You're out of guesses, waiting for ${nameOf(state.currentPlayer)}`;
+    return `${nameOf(state.currentPlayer)}'s turn`;
+  };
 
   return (
     <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50">
-      <div className="bg-white dark:bg-slate-800 p-6 rounded-lg shadow-lg w-full max-w-md">
+      <div {...dialogProps} className="bg-white dark:bg-slate-800 p-6 rounded-lg shadow-lg w-full max-w-md max-h-screen overflow-y-auto focus:outline-none">
         <div className="flex justify-between items-center mb-4">
-          <h2 className="text-xl font-bold">Toilet Wordle</h2>
+          <h2 id="wordle-dialog-title" className="text-xl font-bold">Toilet Wordle</h2>
           <button 
             onClick={handleClose}
             disabled={isClosing}
+            aria-label="Close"
             className="text-gray-500 hover:text-gray-700"
           >
             ✕
           </button>
         </div>
 
-        {gameState && (
+        {gameState && currentUser && (
           <>
             <div className="mb-4 text-center">
               <p className="text-sm mb-2">
-                Playing against: <span className="font-semibold">{opponentName}</span>
+                Playing against: <span className="font-semibold">{opponents.map(nameOf).join(', ')}</span>
               </p>
               
-              <p className="text-sm">
-                {gameState.status === 'completed' 
-                  ? `Game over! ${gameState.winner === currentUser?.uid ? 'You won!' : `${opponentName} won!`}` 
-                  : `${gameState.currentPlayer === currentUser?.uid ? 'Your turn' : `${opponentName}'s turn`}`}
-              </p>
+              <p className="text-sm">{describeTurn(gameState)}</p>
+              
+              {isSetter && customWord && (
+                <p className="text-sm mt-1">Your word: <span className="font-bold">{customWord}</span></p>
+              )}
+              
+              {gameState.status !== 'completed' && !hasLeft && !isSetter && (
+                <p className="text-xs text-gray-500 dark:text-gray-400 mt-1">
+                  {guessesLeft} of {gameState.maxGuesses} guesses left
+                  {gameState.hardMode && ' · hard mode'}
+                  {' · '}
+                  <span className={secondsLeft <= 10 ? 'text-red-500 font-semibold' : ''}>
+                    {isRace ? `race ends in ${secondsLeft}s unless someone guesses` : `${secondsLeft}s left this turn`}
+                  </span>
+                </p>
+              )}
+              
+              <SpectatorCount collectionName={WORDLE_COLLECTION} gameId={gameId} />
+              
+              <div className="flex justify-center mt-2">
+                <WordleColorBlindToggle enabled={colorBlind} onChange={setColorBlind} />
+              </div>
               
               {message && (
-                <p className="text-sm text-accent mt-2">{message}</p>
+                <p role="status" className="text-sm text-accent mt-2">{message}</p>
               )}
             </div>
 
-            <div className="mb-4">
-              <h3 className="text-sm font-semibold mb-2">Your Guesses:</h3>
-              <div className="space-y-1">
-                {(currentUser?.uid === gameState.player1 ? gameState.player1Guesses : gameState.player2Guesses).map((guess, index) => (
-                  <div key={index}>{renderGuessResult(guess)}</div>
-                ))}
+            {!isSetter && (
+              <div className="mb-4">
+                <h3 className="text-sm font-semibold mb-2">Your Guesses:</h3>
+                <WordleGuessRows
+                  guesses={guessesOf(gameState, currentUser.uid)}
+                  feedback={gameState.feedback[currentUser.uid] || []}
+                  wordLength={gameState.wordLength}
+                  colorBlind={colorBlind}
+                  announce
+                />
               </div>
-            </div>
+            )}
 
-            <div className="mb-4">
-              <h3 className="text-sm font-semibold mb-2">{opponentName}'s Guesses:</h3>
-              <div className="space-y-1">
-                {(currentUser?.uid === gameState.player1 ? gameState.player2Guesses : gameState.player1Guesses).map((guess, index) => (
-                  <div key={index}>{renderGuessResult(guess)}</div>
-                ))}
+            {getGuessers(gameState).filter(playerId => playerId !== currentUser.uid).map(playerId => (
+              <div key={playerId} className="mb-4">
+                <h3 className="text-sm font-semibold mb-2">
+                  {nameOf(playerId)}'s Guesses:
+                  {gameState.leftPlayers.includes(playerId) && (
+                    <span className="font-normal text-gray-500 dark:text-gray-400"> (left)</span>
+                  )}
+                </h3>
+                {/* Only colors show for the other racers until the race ends */}
+                <WordleGuessRows
+                  guesses={guessesOf(gameState, playerId)}
+                  feedback={gameState.feedback[playerId] || []}
+                  wordLength={gameState.wordLength}
+                  colorBlind={colorBlind}
+                />
               </div>
-            </div>
+            ))}
 
-            <div className="mb-4">
-              <div className="flex justify-center">
-                {currentGuess.split('').map((letter, i) => (
-                  <div 
-                    key={i} 
-                    className="bg-gray-200 dark:bg-gray-700 w-10 h-10 m-1 flex items-center justify-center font-bold text-lg rounded"
-                  >
-                    {letter}
+            {gameState.status !== 'completed' && !hasLeft && (
+              <>
+                {!isSetter && (
+                  <WordleGuessEntry
+                    keyStates={keyStates}
+                    disabled={!canGuess}
+                    wordLength={gameState.wordLength}
+                    colorBlind={colorBlind}
+                    checkHardMode={checkHardMode}
+                    onMessage={setMessage}
+                    onSubmit={handleSubmitGuess}
+                  />
+                )}
+
+                {/* The server won't let a race's leader resign */}
+                {gameState.winner !== currentUser.uid && (
+                  <div className="mt-4 text-center">
+                    <button
+                      onClick={handleResign}
+                      disabled={isSubmitting}
+                      className="text-sm text-red-500 hover:text-red-700"
+                    >
+                      Resign
+                    </button>
                   </div>
-                ))}
-                {Array(5 - currentGuess.length).fill(null).map((_, i) => (
-                  <div 
-                    key={i} 
-                    className="border-2 border-gray-300 dark:border-gray-600 w-10 h-10 m-1 rounded"
-                  ></div>
-                ))}
-              </div>
-            </div>
+                )}
+              </>
+            )}
 
-            {gameState.status !== 'completed' && gameState.currentPlayer === currentUser?.uid && renderKeyboard()}
+            <GameChat collectionName={WORDLE_COLLECTION} gameId={gameId} playerNames={playerNames} />
           </>
         )}
       </div>
@@ -487,4 +773,4 @@ const WordleGame = ({ gameId, opponentId, onClose }: WordleGameProps) => {
   );
 };
 
-export default WordleGame; 
\ No newline at end of file
+export default WordleGame;
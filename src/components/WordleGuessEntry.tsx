@@ -0,0 +1,220 @@
+import { useState, useEffect, useRef } from 'react';
+import {
+  LetterState,
+  DEFAULT_WORD_LENGTH,
+  LETTER_STATE_LABELS,
+  LETTER_STATE_SHAPES,
+  loadDictionary
+} from '../games/wordle';
+
+const KEY_COLORS: Record<LetterState, string> = {
+  correct: 'bg-green-500 text-white',
+  present: 'bg-yellow-500 text-white',
+  absent: 'bg-gray-400 dark:bg-gray-900 text-gray-100'
+};
+
+const COLOR_BLIND_KEY_COLORS: Record<LetterState, string> = {
+  correct: 'bg-orange-500 text-white',
+  present: 'bg-sky-500 text-white',
+  absent: 'bg-gray-400 dark:bg-gray-900 text-gray-100'
+};
+
+const KEYBOARD_ROWS = [
+  ['Q', 'W', 'E', 'R', 'T', 'Y', 'U', 'I', 'O', 'P'],
+  ['A', 'S', 'D', 'F', 'G', 'H', 'J', 'K', 'L'],
+  ['Z', 'X', 'C', 'V', 'B', 'N', 'M']
+];
+
+interface WordleGuessEntryProps {
+  // Best-known state of each letter, used to color the keyboard
+  keyStates: { [letter: string]: LetterState };
+  // Hides the keyboard, e.g. while it's the opponent's turn
+  disabled: boolean;
+  wordLength?: number;
+  colorBlind?: boolean;
+  // Returns why a guess breaks hard mode, or null if it's allowed
+  checkHardMode?: (guess: string) => string | null;
+  onMessage: (message: string) => void;
+  // Resolves true once the guess is accepted so the row can be cleared
+  onSubmit: (guess: string) => Promise<boolean>;
+}
+
+// The row being typed plus the on-screen keyboard, shared by every Wordle mode
+const WordleGuessEntry = ({
+  keyStates,
+  disabled,
+  wordLength = DEFAULT_WORD_LENGTH,
+  colorBlind = false,
+  checkHardMode,
+  onMessage,
+  onSubmit
+}: WordleGuessEntryProps) => {
+  const [currentGuess, setCurrentGuess] = useState('');
+  const [isShaking, setIsShaking] = useState(false);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const physicalKeyRef = useRef<(event: KeyboardEvent) => void>(() => {});
+  const keyColors = colorBlind ? COLOR_BLIND_KEY_COLORS : KEY_COLORS;
+
+  const handleKeyPress = (key: string) => {
+    if (/^[A-Za-z]$/.test(key)) {
+      // Checked against the latest guess, so fast typing can't overrun the word length
+      setCurrentGuess(prev => (prev.length < wordLength ? prev + key.toUpperCase() : prev));
+    }
+  };
+
+  const handleBackspace = () => {
+    setCurrentGuess(prev => prev.slice(0, -1));
+  };
+
+  const handleSubmitGuess = async () => {
+    if (disabled || isSubmitting) return;
+
+    // Validate guess
+    if (currentGuess.length !== wordLength) {
+      onMessage(`Your guess must be ${wordLength} letters!`);
+      return;
+    }
+
+    const violation = checkHardMode?.(currentGuess);
+    if (violation) {
+      onMessage(violation);
+      return;
+    }
+
+    // Reject made-up words so nobody can probe letters with guesses like "AEIOU"
+    try {
+      const dictionary = await loadDictionary(wordLength);
+      if (!dictionary.has(currentGuess)) {
+        onMessage(`${currentGuess} is not in the word list!`);
+        setIsShaking(true);
+        setTimeout(() => setIsShaking(false), 500);
+        return;
+      }
+    } catch (error) {
+      console.error('Error loading the word list:', error);
+      onMessage('Error checking your guess. Please try again.');
+      return;
+    }
+
+    setIsSubmitting(true);
+
+    try {
+      if (await onSubmit(currentGuess)) {
+        setCurrentGuess('');
+      }
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  // Typing works anywhere in the page except in text fields like the game chat, so it
+  // carries on after clicking a button. Enter submits the guess rather than pressing a
+  // focused button; Space still presses it.
+  physicalKeyRef.current = (event: KeyboardEvent) => {
+    const target = event.target as HTMLElement | null;
+    if (disabled || event.ctrlKey || event.metaKey || event.altKey) return;
+    if (target && (target.isContentEditable || ['INPUT', 'TEXTAREA', 'SELECT'].includes(target.tagName))) {
+      return;
+    }
+
+    if (event.key === 'Enter') {
+      event.preventDefault();
+      handleSubmitGuess();
+    } else if (event.key === 'Backspace') {
+      event.preventDefault();
+      handleBackspace();
+    } else if (/^[A-Za-z]$/.test(event.key)) {
+      handleKeyPress(event.key);
+    }
+  };
+
+  useEffect(() => {
+    const handleKeyDown = (event: KeyboardEvent) => physicalKeyRef.current(event);
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, []);
+
+  // Clicking a key shouldn't focus it, or the next physical Enter would press it again
+  const keepFocus = (e: React.MouseEvent) => e.preventDefault();
+
+  return (
+    <>
+      <div className="mb-4">
+        <div
+          role="group"
+          aria-label={`Current guess: ${currentGuess.length} of ${wordLength} letters${currentGuess ? `, ${currentGuess}` : ''}`}
+          className={`flex justify-center ${isShaking ? 'animate-shake' : ''}`}
+        >
+          {currentGuess.split('').map((letter, i) => (
+            <div
+              key={i}
+              className="bg-gray-200 dark:bg-gray-700 w-10 h-10 m-1 flex items-center justify-center font-bold text-lg rounded"
+            >
+              {letter}
+            </div>
+          ))}
+          {Array(wordLength - currentGuess.length).fill(null).map((_, i) => (
+            <div
+              key={i}
+              className="border-2 border-gray-300 dark:border-gray-600 w-10 h-10 m-1 rounded"
+            ></div>
+          ))}
+        </div>
+      </div>
+
+      {!disabled && (
+        <div className="mt-4">
+          {KEYBOARD_ROWS.map((row, rowIndex) => (
+            <div key={rowIndex} className="flex justify-center mb-2">
+              {rowIndex === 2 && (
+                <button
+                  onClick={handleSubmitGuess}
+                  onMouseDown={keepFocus}
+                  aria-label="Submit guess"
+                  className="px-4 py-2 bg-primary text-white rounded mr-1"
+                  disabled={isSubmitting || currentGuess.length !== wordLength}
+                >
+                  Enter
+                </button>
+              )}
+
+              {row.map(key => (
+                <button
+                  key={key}
+                  onClick={() => handleKeyPress(key)}
+                  onMouseDown={keepFocus}
+                  aria-label={keyStates[key] ? `${key}, ${LETTER_STATE_LABELS[keyStates[key]]}` : key}
+                  className={`relative w-8 h-10 m-1 rounded ${
+                    keyStates[key] ? keyColors[keyStates[key]] : 'bg-gray-200 dark:bg-gray-700'
+                  }`}
+                  disabled={currentGuess.length >= wordLength}
+                >
+                  {key}
+                  {colorBlind && keyStates[key] && LETTER_STATE_SHAPES[keyStates[key]] && (
+                    <span aria-hidden="true" className="absolute top-0 right-0.5 text-[0.5rem] leading-none">
+                      {LETTER_STATE_SHAPES[keyStates[key]]}
+                    </span>
+                  )}
+                </button>
+              ))}
+
+              {rowIndex === 2 && (
+                <button
+                  onClick={handleBackspace}
+                  onMouseDown={keepFocus}
+                  aria-label="Delete letter"
+                  className="px-4 py-2 bg-gray-300 dark:bg-gray-600 rounded ml-1"
+                  disabled={currentGuess.length === 0}
+                >
+                  ←
+                </button>
+              )}
+            </div>
+          ))}
+        </div>
+      )}
+    </>
+  );
+};
+
+export default WordleGuessEntry;
@@ -0,0 +1,108 @@
+import {
+  LetterState,
+  DEFAULT_WORD_LENGTH,
+  LETTER_STATE_LABELS,
+  LETTER_STATE_SHAPES,
+  decodeFeedback,
+  describeScoredGuess
+} from '../games/wordle';
+
+const TILE_COLORS: Record<LetterState, string> = {
+  correct: 'bg-green-500',
+  present: 'bg-yellow-500',
+  absent: 'bg-gray-300 dark:bg-gray-700'
+};
+
+const COLOR_BLIND_TILE_COLORS: Record<LetterState, string> = {
+  correct: 'bg-orange-500 text-white',
+  present: 'bg-sky-500 text-white',
+  absent: 'bg-gray-300 dark:bg-gray-700'
+};
+
+interface WordleGuessRowsProps {
+  // May be shorter than feedback, e.g. a racer's letters, which are hidden until the end
+  guesses: string[];
+  // Encoded colors for each guess, in the same order as the guesses
+  feedback: string[];
+  // Pad the board with empty rows up to this many, e.g. the guess limit
+  totalRows?: number;
+  // Tiles in each empty row
+  wordLength?: number;
+  // High-contrast colors with a shape on each hinted tile
+  colorBlind?: boolean;
+  // Read the newest guess's result aloud, for the player's own board
+  announce?: boolean;
+  // Flip the newest guess's tiles in one at a time, e.g. in a replay
+  animateLatest?: boolean;
+}
+
+const WordleGuessRows = ({
+  guesses,
+  feedback,
+  totalRows = 0,
+  wordLength = DEFAULT_WORD_LENGTH,
+  colorBlind = false,
+  announce = false,
+  animateLatest = false
+}: WordleGuessRowsProps) => {
+  const emptyRows = Math.max(totalRows - feedback.length, 0);
+  const colors = colorBlind ? COLOR_BLIND_TILE_COLORS : TILE_COLORS;
+  const latest = feedback.length - 1;
+
+  return (
+    <div className="space-y-1">
+      {feedback.map((encoded, index) => {
+        const result = decodeFeedback(encoded);
+        const guess = guesses[index] || '';
+        const isAnimated = animateLatest && index === latest;
+
+        return (
+          <div
+            key={index}
+            role="group"
+            aria-label={`Guess ${index + 1}${guess ? `, ${guess}` : ''}`}
+            className="flex justify-center mb-2"
+          >
+            {result.map((state, i) => (
+              <div
+                key={i}
+                role="img"
+                aria-label={`${guess[i] || `Letter ${i + 1}`}, ${LETTER_STATE_LABELS[state]}`}
+                className={`${colors[state]} relative w-10 h-10 m-1 flex items-center justify-center font-bold text-lg rounded ${
+                  isAnimated ? 'animate-flip' : ''
+                }`}
+                style={isAnimated ? { animationDelay: `${i * 100}ms` } : undefined}
+              >
+                <span aria-hidden="true">{guess[i] || ''}</span>
+                {colorBlind && LETTER_STATE_SHAPES[state] && (
+                  <span aria-hidden="true" className="absolute top-0 right-0.5 text-[0.6rem] leading-none">
+                    {LETTER_STATE_SHAPES[state]}
+                  </span>
+                )}
+              </div>
+            ))}
+          </div>
+        );
+      })}
+
+      {Array(emptyRows).fill(null).map((_, index) => (
+        <div key={`empty-${index}`} className="flex justify-center mb-2" aria-hidden="true">
+          {Array(wordLength).fill(null).map((_, i) => (
+            <div
+              key={i}
+              className="border-2 border-gray-200 dark:border-gray-700 w-10 h-10 m-1 rounded"
+            ></div>
+          ))}
+        </div>
+      ))}
+
+      {announce && (
+        <p className="sr-only" aria-live="polite">
+          {latest >= 0 && `Guess ${latest + 1}: ${describeScoredGuess(guesses[latest] || '', decodeFeedback(feedback[latest]))}`}
+        </p>
+      )}
+    </div>
+  );
+};
+
+export default WordleGuessRows;
@@ -0,0 +1,179 @@
+import { useState } from 'react';
+import { FirebaseError } from 'firebase/app';
+import { GameOptionsPickerProps } from '../games/types';
+import {
+  MAX_GUESSES_CHOICES,
+  WORD_LENGTH_CHOICES,
+  DEFAULT_WORD_LENGTH,
+  DEFAULT_WORD_PACK,
+  WordleMode,
+  loadDictionary
+} from '../games/wordle';
+import wordlePacks from '../games/data/wordlePacks.json';
+import { createWordleCustomWord } from '../services/wordleService';
+
+const MODE_CHOICES: { mode: WordleMode; label: string }[] = [
+  { mode: 'turns', label: 'Take turns' },
+  { mode: 'race', label: 'Race' }
+];
+
+const PACK_CHOICES = [
+  { id: DEFAULT_WORD_PACK, label: '🚽 Classic' },
+  ...Object.entries(wordlePacks).map(([id, pack]) => ({ id, label: `${pack.icon} ${pack.name}` }))
+];
+
+const WordleOptionsPicker = ({ options, onChange }: GameOptionsPickerProps) => {
+  const [wordInput, setWordInput] = useState('');
+  // The word behind options.customWordId, shown back to the player who set it
+  const [customWord, setCustomWord] = useState('');
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState('');
+
+  const choiceClass = (isSelected: boolean) => `px-3 py-1 rounded-full ${
+    isSelected ? 'bg-primary text-white' : 'bg-gray-200 dark:bg-slate-700'
+  }`;
+
+  const wordLength = options.wordLength || DEFAULT_WORD_LENGTH;
+
+  // A set word has to match the new length, and packs only hold 5-letter words
+  const handlePickLength = (newLength: number) => {
+    if (newLength === wordLength) return;
+
+    const { customWordId: _customWordId, ...rest } = options;
+    setCustomWord('');
+    setError('');
+    onChange({
+      ...rest,
+      wordLength: newLength,
+      wordPack: newLength === DEFAULT_WORD_LENGTH ? options.wordPack : DEFAULT_WORD_PACK
+    });
+  };
+
+  const handlePickPack = (wordPack: string) => {
+    const { customWordId: _customWordId, ...rest } = options;
+    setCustomWord('');
+    onChange({ ...rest, wordPack });
+  };
+
+  const handleSetWord = async (e: React.FormEvent) => {
+    e.preventDefault();
+    const word = wordInput.trim().toUpperCase();
+
+    if (word.length !== wordLength) {
+      setError(`Your word must be ${wordLength} letters!`);
+      return;
+    }
+
+    setSaving(true);
+    setError('');
+
+    try {
+      // Check here first so a typo doesn't need a round trip; the server checks again
+      if (!(await loadDictionary(wordLength)).has(word)) {
+        setError(`${word} is not in the word list!`);
+        return;
+      }
+
+      // Only the id of the saved word goes on the invite, so the friend can't read it
+      const customWordId = await createWordleCustomWord(word);
+      setCustomWord(word);
+      setWordInput('');
+      onChange({ ...options, customWordId });
+    } catch (err) {
+      const isRejected = err instanceof FirebaseError && err.code !== 'functions/internal';
+      setError(isRejected ? err.message : 'Error saving your word. Please try again.');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <>
+      <div className="flex justify-center space-x-2 mb-2">
+        {MODE_CHOICES.map(({ mode, label }) => (
+          <button
+            key={mode}
+            onClick={() => onChange({ ...options, mode })}
+            className={choiceClass((options.mode || 'turns') === mode)}
+          >
+            {label}
+          </button>
+        ))}
+      </div>
+      <div className="flex justify-center space-x-2 mb-2">
+        {MAX_GUESSES_CHOICES.map(maxGuesses => (
+          <button
+            key={maxGuesses}
+            onClick={() => onChange({ ...options, maxGuesses })}
+            className={choiceClass(options.maxGuesses === maxGuesses)}
+          >
+            {maxGuesses} guesses
+          </button>
+        ))}
+      </div>
+      <div className="flex flex-wrap justify-center gap-2 mb-2">
+        {WORD_LENGTH_CHOICES.map(length => (
+          <button
+            key={length}
+            onClick={() => handlePickLength(length)}
+            className={choiceClass(wordLength === length)}
+          >
+            {length} letters
+          </button>
+        ))}
+        <button
+          onClick={() => onChange({ ...options, hardMode: !options.hardMode })}
+          className={choiceClass(!!options.hardMode)}
+          title="Revealed hints must be used in later guesses"
+        >
+          Hard mode
+        </button>
+      </div>
+      {wordLength === DEFAULT_WORD_LENGTH && (
+        <div className="flex flex-wrap justify-center gap-2 mb-2">
+          {PACK_CHOICES.map(({ id, label }) => (
+            <button
+              key={id}
+              onClick={() => handlePickPack(id)}
+              className={choiceClass(!options.customWordId && (options.wordPack || DEFAULT_WORD_PACK) === id)}
+            >
+              {label}
+            </button>
+          ))}
+        </div>
+      )}
+      {options.customWordId ? (
+        <p className="text-center text-sm mb-2">
+          Your friends will guess <span className="font-bold">{customWord || 'your word'}</span>
+          {' · '}
+          <button onClick={() => handlePickPack(DEFAULT_WORD_PACK)} className="text-primary hover:underline">
+            {wordLength === DEFAULT_WORD_LENGTH ? 'Use a pack instead' : 'Pick a word for me'}
+          </button>
+        </p>
+      ) : (
+        <form onSubmit={handleSetWord} className="flex justify-center space-x-2 mb-2">
+          <input
+            type="password"
+            value={wordInput}
+            onChange={e => setWordInput(e.target.value)}
+            className="input w-40"
+            placeholder="Or set your own word"
+            autoComplete="off"
+            maxLength={wordLength}
+            disabled={saving}
+          />
+          <button
+            type="submit"
+            disabled={saving || !wordInput.trim()}
+            className="px-3 py-1 bg-accent text-white rounded disabled:opacity-50"
+          >
+            {saving ? 'Saving...' : 'Set word'}
+          </button>
+        </form>
+      )}
+      {error && <p className="text-center text-sm text-red-500 mb-2">{error}</p>}
+    </>
+  );
+};
+
+export default WordleOptionsPicker;
@@ -0,0 +1,177 @@
+import { useState, useEffect } from 'react';
+import { doc, getDoc, onSnapshot } from 'firebase/firestore';
+import { FaEye } from 'react-icons/fa';
+import { firestore } from '../firebase/config';
+import { useAuth } from '../contexts/AuthContext';
+import {
+  WORDLE_COLLECTION,
+  WordleGameState,
+  getGuessCount,
+  getGuessers,
+  loadColorBlindMode
+} from '../games/wordle';
+import {
+  SPECTATOR_HEARTBEAT_MS,
+  joinAsSpectator,
+  refreshSpectator,
+  leaveAsSpectator
+} from '../services/spectatorService';
+import WordleGuessRows from './WordleGuessRows';
+import SpectatorCount from './SpectatorCount';
+
+interface WordleSpectatorProps {
+  gameId: string;
+  onClose: () => void;
+}
+
+// Read-only view of a friend's Wordle game. Spectators see every board as it
+// fills in, but this view doesn't show the answer. Once the game is over the word is
+// copied onto the game document, which any signed-in user can read.
+const WordleSpectator = ({ gameId, onClose }: WordleSpectatorProps) => {
+  const { currentUser, userData } = useAuth();
+  const [gameState, setGameState] = useState<WordleGameState | null>(null);
+  const [playerNames, setPlayerNames] = useState<{ [userId: string]: string }>({});
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState('');
+  const [colorBlind] = useState(loadColorBlindMode);
+
+  // Listen for every player's guesses
+  useEffect(() => {
+    const unsubscribe = onSnapshot(doc(firestore, WORDLE_COLLECTION, gameId), (docSnapshot) => {
+      setGameState(docSnapshot.exists() ? docSnapshot.data() as WordleGameState : null);
+      setLoading(false);
+    }, (error) => {
+      console.error('Error listening to game updates:', error);
+      setError('Error connecting to the game. Please try again.');
+      setLoading(false);
+    });
+
+    return () => unsubscribe();
+  }, [gameId]);
+
+  // Only refetch names when the players change
+  const playerIds = gameState ? gameState.players.join(',') : '';
+
+  // Get every player's name
+  useEffect(() => {
+    if (!playerIds) return;
+
+    const fetchPlayerNames = async () => {
+      try {
+        const names: { [userId: string]: string } = {};
+        await Promise.all(playerIds.split(',').map(async (playerId) => {
+          const playerDoc = await getDoc(doc(firestore, 'users', playerId));
+          names[playerId] = playerDoc.exists() ? playerDoc.data().displayName || 'Player' : 'Player';
+        }));
+        setPlayerNames(names);
+      } catch (error) {
+        console.error('Error fetching player names:', error);
+      }
+    };
+
+    fetchPlayerNames();
+  }, [playerIds]);
+
+  // Show up in the players' spectator count for as long as this view is open
+  useEffect(() => {
+    if (!currentUser) return;
+
+    joinAsSpectator(WORDLE_COLLECTION, gameId, currentUser.uid, userData?.displayName || 'Someone')
+      .catch(() => {});
+
+    const heartbeat = setInterval(() => {
+      refreshSpectator(WORDLE_COLLECTION, gameId, currentUser.uid).catch(() => {});
+    }, SPECTATOR_HEARTBEAT_MS);
+
+    return () => {
+      clearInterval(heartbeat);
+      leaveAsSpectator(WORDLE_COLLECTION, gameId, currentUser.uid).catch(() => {});
+    };
+  }, [currentUser, userData?.displayName, gameId]);
+
+  const nameOf = (playerId: string) => playerNames[playerId] || 'Loading...';
+
+  // Status line without the answer, which players see once the game ends
+  const describeStatus = (state: WordleGameState) => {
+    if (state.status === 'completed') {
+      if (state.outcome === 'draw') return "Game over! It's a draw.";
+      if (state.outcome === 'stumped') return `Game over! Nobody found ${nameOf(state.winner || '')}'s word.`;
+
+      if (state.outcome === 'resigned' || state.outcome === 'forfeit') {
+        return `Game over! ${nameOf(state.winner || '')} was the last one left.`;
+      }
+
+      return `Game over! ${nameOf(state.winner || '')} found the word.`;
+    }
+
+    if (state.mode === 'race') {
+      return state.winner
+        ? `Race on! ${nameOf(state.winner)} leads with ${getGuessCount(state, state.winner)} guesses`
+        : 'Race on! Everyone guesses at once';
+    }
+
+    return `${nameOf(state.currentPlayer)}'s turn`;
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50">
+      <div className="bg-white dark:bg-slate-800 p-6 rounded-lg shadow-lg w-full max-w-md max-h-screen overflow-y-auto">
+        <div className="flex justify-between items-center mb-4">
+          <h2 className="text-xl font-bold flex items-center space-x-2">
+            <FaEye className="text-primary" />
+            <span>Watching Toilet Wordle</span>
+          </h2>
+          <button onClick={onClose} className="text-gray-500 hover:text-gray-700">
+            ✕
+          </button>
+        </div>
+
+        {loading ? (
+          <div className="animate-spin rounded-full h-12 w-12 border-t-2 border-b-2 border-primary mx-auto"></div>
+        ) : error ? (
+          <p className="text-red-500 text-sm text-center">{error}</p>
+        ) : !gameState ? (
+          <p className="text-center">This game no longer exists.</p>
+        ) : (
+          <>
+            <div className="mb-4 text-center">
+              <p className="text-sm mb-1 font-semibold">
+                {gameState.players.map(nameOf).join(' vs ')}
+              </p>
+              <p className="text-sm">{describeStatus(gameState)}</p>
+              <SpectatorCount collectionName={WORDLE_COLLECTION} gameId={gameId} />
+            </div>
+
+            {getGuessers(gameState).map(playerId => (
+              <div key={playerId} className="mb-4">
+                <h3 className="text-sm font-semibold mb-2">
+                  {nameOf(playerId)}'s Guesses
+                  <span className="font-normal text-gray-500 dark:text-gray-400">
+                    {' '}({getGuessCount(gameState, playerId)}/{gameState.maxGuesses})
+                    {gameState.leftPlayers.includes(playerId) && ' (left)'}
+                  </span>
+                </h3>
+                <WordleGuessRows
+                  guesses={gameState.guesses[playerId] || []}
+                  feedback={gameState.feedback[playerId] || []}
+                  colorBlind={colorBlind}
+                />
+              </div>
+            ))}
+
+            <div className="text-center">
+              <button
+                onClick={onClose}
+                className="px-4 py-2 bg-primary text-white rounded"
+              >
+                Stop Watching
+              </button>
+            </div>
+          </>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default WordleSpectator;
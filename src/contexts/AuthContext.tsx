@@ -6,7 +6,7 @@ import {
   onAuthStateChanged,
   updateProfile,
 } from 'firebase/auth';
-import { ref, set, onValue, onDisconnect, get } from 'firebase/database';
+import { ref, set, onValue, onDisconnect, get, serverTimestamp } from 'firebase/database';
 import { doc, setDoc, getDoc, updateDoc, collection } from 'firebase/firestore';
 import { createContext, useContext, useState, useEffect, ReactNode } from 'react';
 
@@ -52,6 +52,13 @@ if (typeof window !== 'undefined') {
   sessionStorage.setItem('sessionId', sessionId);
 }
 
+// Remove this session when the tab closes, and note when that happened so
+// games can tell how long a player has been gone
+function removeSessionOnDisconnect(uid: string) {
+  onDisconnect(ref(database, `status/${uid}/sessions/${sessionId}`)).remove();
+  onDisconnect(ref(database, `status/${uid}/lastDisconnectedAt`)).set(serverTimestamp());
+}
+
 export function useAuth() {
   const context = useContext(AuthContext);
   if (!context) {
@@ -94,9 +101,7 @@ export function AuthProvider({ children }: AuthProviderProps) {
       });
 
       // Set up onDisconnect to update status when tab closes
-      onDisconnect(
-        ref(database, `status/${userCredential.user.uid}/sessions/${sessionId}`)
-      ).remove();
+      removeSessionOnDisconnect(userCredential.user.uid);
     } catch (error: any) {
       console.error('Registration error:', error);
       setError(error.message || 'Failed to register. Please try again.');
@@ -196,7 +201,7 @@ export function AuthProvider({ children }: AuthProviderProps) {
       }
 
       // Set up onDisconnect to remove this session when tab closes
-      onDisconnect(ref(database, `status/${currentUser.uid}/sessions/${sessionId}`)).remove();
+      removeSessionOnDisconnect(currentUser.uid);
     } catch (error: any) {
       console.error('Status update error:', error);
       setError(error.message || 'Failed to update status. Please try again.');
@@ -260,7 +265,7 @@ export function AuthProvider({ children }: AuthProviderProps) {
               });
 
               // Set up onDisconnect to remove this session when tab closes
-              onDisconnect(ref(database, `status/${user.uid}/sessions/${sessionId}`)).remove();
+              removeSessionOnDisconnect(user.uid);
 
               // Listen for status changes
               onValue(
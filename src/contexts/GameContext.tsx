@@ -1,29 +1,46 @@
-import { createContext, useContext, useState, useEffect, ReactNode } from 'react';
-import { collection, query, where, getDocs, getDoc, doc, deleteDoc } from 'firebase/firestore';
+import { createContext, useContext, useState, useEffect, useRef, ReactNode } from 'react';
+import { collection, query, where, getDoc, doc, onSnapshot } from 'firebase/firestore';
 import { firestore } from '../firebase/config';
 import { useAuth } from './AuthContext';
-
-interface GameInviteData {
-  id: string;
-  senderId: string;
-  senderName: string;
-  receiverId: string;
-  gameType: 'wordle';
-  status: 'accepted' | 'pending' | 'rejected' | 'cancelled';
-  createdAt: number;
-  gameId?: string;
-}
+import { GameType, getGame } from '../games/registry';
+import { GameOptions } from '../games/types';
+import { GameInviteData, UserGameEntry } from '../models/Game';
+import {
+  GAME_INVITES_COLLECTION,
+  createGameId,
+  isInviteExpired,
+  closeGameInvite,
+  deleteGameInvite,
+  acceptGameInvite
+} from '../services/gameService';
+import { USER_GAMES_COLLECTION, markUserGameFinished } from '../services/userGamesService';
 
 interface GameContextType {
   activeGameId: string | null;
   activeOpponentId: string | null;
+  activeGameType: GameType | null;
+  activeGameOptions: GameOptions;
   activeInviteId: string | null;
   pendingInvites: GameInviteData[];
+  // Every invite the current user received and hasn't cleared, whatever its status
+  receivedInvites: GameInviteData[];
+  // Invites the current user sent, with their live status
+  outgoingInvites: GameInviteData[];
+  // A friend's game the current user is watching
+  spectatingGameId: string | null;
+  spectateGame: (gameId: string) => void;
+  stopSpectating: () => void;
   selectedGame: string | null;
   setSelectedGame: (game: string | null) => void;
+  selectedGameOptions: GameOptions;
+  setSelectedGameOptions: (options: GameOptions) => void;
   setActiveInviteId: (id: string | null) => void;
   handleCloseGame: () => void;
-  handleAcceptInvite: (gameId: string, opponentId: string) => void;
+  handleAcceptInvite: (gameId: string, opponentId: string, gameType: GameType, options?: GameOptions) => void;
+  // Accept a received invite, joining its room if it has one, and open the game
+  acceptInvite: (invite: GameInviteData) => Promise<void>;
+  // Reopen one of the user's games, even one they closed earlier
+  resumeGame: (entry: UserGameEntry) => void;
   handleCloseInvite: () => void;
 }
 
@@ -41,131 +58,216 @@ export const GameProvider = ({ children }: { children: ReactNode }) => {
   const { currentUser } = useAuth();
   const [activeGameId, setActiveGameId] = useState<string | null>(null);
   const [activeOpponentId, setActiveOpponentId] = useState<string | null>(null);
+  const [activeGameType, setActiveGameType] = useState<GameType | null>(null);
+  const [activeGameOptions, setActiveGameOptions] = useState<GameOptions>({});
   const [activeInviteId, setActiveInviteId] = useState<string | null>(null);
   const [pendingInvites, setPendingInvites] = useState<GameInviteData[]>([]);
+  const [receivedInvites, setReceivedInvites] = useState<GameInviteData[]>([]);
+  const [outgoingInvites, setOutgoingInvites] = useState<GameInviteData[]>([]);
+  const [spectatingGameId, setSpectatingGameId] = useState<string | null>(null);
   const [selectedGame, setSelectedGame] = useState<string | null>(null);
+  const [selectedGameOptions, setSelectedGameOptions] = useState<GameOptions>({});
+
+  // Read inside the listeners without re-subscribing whenever they change
+  const activeGameIdRef = useRef<string | null>(null);
+  const activeInviteIdRef = useRef<string | null>(null);
+
+  useEffect(() => {
+    activeGameIdRef.current = activeGameId;
+  }, [activeGameId]);
 
-  // Check for active games and pending invites
+  useEffect(() => {
+    activeInviteIdRef.current = activeInviteId;
+  }, [activeInviteId]);
+
+  // Listen for invites sent to and by the current user
   useEffect(() => {
     if (!currentUser) return;
 
-    const fetchGameState = async () => {
-      try {
-        // Check for active games first
-        // Check for accepted game invites where the current user is the sender
-        const senderInvitesQuery = query(
-          collection(firestore, 'gameInvites'),
-          where('senderId', '==', currentUser.uid),
-          where('status', '==', 'accepted')
-        );
-
-        const senderInvitesSnapshot = await getDocs(senderInvitesQuery);
-        
-        if (!senderInvitesSnapshot.empty) {
-          const invite = senderInvitesSnapshot.docs[0].data() as GameInviteData;
-          
-          // Check if the game is still active
-          if (invite.gameId) {
-            const gameDoc = await getDoc(doc(firestore, 'wordleGames', invite.gameId));
-            if (gameDoc.exists() && gameDoc.data().status !== 'completed') {
-              setActiveGameId(invite.gameId);
-              setActiveOpponentId(invite.receiverId);
-              return;
-            } else {
-              // If game is completed, clean up the invite
-              await deleteDoc(doc(firestore, 'gameInvites', senderInvitesSnapshot.docs[0].id));
-            }
-          }
-        }
+    const incomingQuery = query(
+      collection(firestore, GAME_INVITES_COLLECTION),
+      where('receiverId', '==', currentUser.uid)
+    );
 
-        // Check for accepted game invites where the current user is the receiver
-        const receiverInvitesQuery = query(
-          collection(firestore, 'gameInvites'),
-          where('receiverId', '==', currentUser.uid),
-          where('status', '==', 'accepted')
-        );
-
-        const receiverInvitesSnapshot = await getDocs(receiverInvitesQuery);
-        
-        if (!receiverInvitesSnapshot.empty) {
-          const invite = receiverInvitesSnapshot.docs[0].data() as GameInviteData;
-          
-          // Check if the game is still active
-          if (invite.gameId) {
-            const gameDoc = await getDoc(doc(firestore, 'wordleGames', invite.gameId));
-            if (gameDoc.exists() && gameDoc.data().status !== 'completed') {
-              setActiveGameId(invite.gameId);
-              setActiveOpponentId(invite.senderId);
-              return;
-            } else {
-              // If game is completed, clean up the invite
-              await deleteDoc(doc(firestore, 'gameInvites', receiverInvitesSnapshot.docs[0].id));
-            }
-          }
-        }
+    const unsubscribeIncoming = onSnapshot(incomingQuery, (snapshot) => {
+      const invites = snapshot.docs.map(inviteDoc => ({ id: inviteDoc.id, ...inviteDoc.data() } as GameInviteData));
+      const invitesList = invites.filter(invite => invite.status === 'pending' && !isInviteExpired(invite));
+      setPendingInvites(invitesList);
+      setReceivedInvites(invites);
 
-        // If no active games, check for pending invites
-        const invitesQuery = query(
-          collection(firestore, 'gameInvites'),
-          where('receiverId', '==', currentUser.uid),
-          where('status', '==', 'pending')
-        );
+      // If there's a pending invite, set it as active
+      if (invitesList.length > 0 && !activeInviteIdRef.current && !activeGameIdRef.current) {
+        setActiveInviteId(invitesList[0].id);
+      }
+    }, (error) => {
+      console.error('Error listening to incoming invites:', error);
+    });
+
+    const outgoingQuery = query(
+      collection(firestore, GAME_INVITES_COLLECTION),
+      where('senderId', '==', currentUser.uid)
+    );
 
-        const invitesSnapshot = await getDocs(invitesQuery);
-        const invitesList: GameInviteData[] = [];
+    const unsubscribeOutgoing = onSnapshot(outgoingQuery, (snapshot) => {
+      const invites = snapshot.docs.map(inviteDoc => ({ id: inviteDoc.id, ...inviteDoc.data() } as GameInviteData));
+      setOutgoingInvites(invites);
+    }, (error) => {
+      console.error('Error listening to outgoing invites:', error);
+    });
 
-        invitesSnapshot.forEach(doc => {
-          invitesList.push({ id: doc.id, ...doc.data() } as GameInviteData);
-        });
+    return () => {
+      unsubscribeIncoming();
+      unsubscribeOutgoing();
+    };
+  }, [currentUser]);
 
-        setPendingInvites(invitesList);
+  // Open a game as soon as it shows up in the user's games without them having opened it.
+  // That's how the sender of an invite joins: the friend who accepts adds the game there.
+  useEffect(() => {
+    if (!currentUser) return;
+
+    // A rematch may replace the finished game it follows, but nothing else interrupts a game
+    const canJoin = (entry: UserGameEntry) =>
+      !activeGameIdRef.current || activeGameIdRef.current === entry.rematchOf;
+
+    const openNewGame = async (entry: UserGameEntry) => {
+      const game = getGame(entry.gameType);
+      if (!game || !canJoin(entry)) return;
+
+      try {
+        const gameDoc = await getDoc(doc(firestore, game.collection, entry.gameId));
 
-        // If there's a pending invite, set it as active
-        if (invitesList.length > 0 && !activeInviteId && !activeGameId) {
-          setActiveInviteId(invitesList[0].id);
+        if (!gameDoc.exists() || gameDoc.data().status === 'completed') {
+          await markUserGameFinished(currentUser.uid, entry.gameId);
+          return;
         }
+
+        if (!canJoin(entry)) return;
+
+        if (activeGameIdRef.current) {
+          deleteGameInvite(currentUser.uid, activeGameIdRef.current).catch(() => {});
+        }
+
+        activeGameIdRef.current = entry.gameId;
+        setActiveGameId(entry.gameId);
+        setActiveOpponentId(entry.opponentId);
+        setActiveGameType(entry.gameType);
+        setActiveGameOptions(entry.options || {});
+        setSpectatingGameId(null);
       } catch (error) {
-        console.error('Error fetching game state:', error);
+        console.error('Error opening game:', error);
       }
     };
 
-    // Initial fetch
-    fetchGameState();
+    const entriesQuery = query(
+      collection(firestore, 'users', currentUser.uid, USER_GAMES_COLLECTION),
+      where('finished', '==', false)
+    );
 
-    // Set up a periodic check for updates
-    const intervalId = setInterval(fetchGameState, 10000);
+    // Only new entries, so closing a game that hasn't been marked opened yet doesn't reopen it
+    const unsubscribe = onSnapshot(entriesQuery, (snapshot) => {
+      snapshot.docChanges()
+        .filter(change => change.type === 'added')
+        .map(change => change.doc.data() as UserGameEntry)
+        .filter(entry => entry.lastOpenedAt === null)
+        .forEach(openNewGame);
+    }, (error) => {
+      console.error('Error listening to games:', error);
+    });
 
-    return () => clearInterval(intervalId);
-  }, [currentUser, activeInviteId, activeGameId]);
+    return () => unsubscribe();
+  }, [currentUser]);
+
+  // Expire the sender's unanswered invites on time. Declined, cancelled and expired
+  // invites stay in both users' invite history until they clear them.
+  useEffect(() => {
+    const timers = outgoingInvites
+      .filter(invite => invite.status === 'pending')
+      .map(invite => setTimeout(
+        () => closeGameInvite(invite.id, 'expired').catch(() => {}),
+        Math.max(invite.expiresAt - Date.now(), 0)
+      ));
+
+    return () => timers.forEach(clearTimeout);
+  }, [outgoingInvites]);
 
   const handleCloseGame = () => {
     // Immediately clear all game state
     setActiveGameId(null);
     setActiveOpponentId(null);
+    setActiveGameType(null);
+    setActiveGameOptions({});
   };
 
-  const handleAcceptInvite = (gameId: string, opponentId: string) => {
+  const handleAcceptInvite = (gameId: string, opponentId: string, gameType: GameType, options: GameOptions = {}) => {
+    // Accepting a rematch replaces the finished game
     setActiveGameId(gameId);
     setActiveOpponentId(opponentId);
+    setActiveGameType(gameType);
+    setActiveGameOptions(options);
     setActiveInviteId(null);
+    setSpectatingGameId(null);
+  };
+
+  const acceptInvite = async (invite: GameInviteData) => {
+    const game = getGame(invite.gameType);
+
+    // Room invites point at a game that already exists; otherwise accepting creates it
+    if (invite.gameId) {
+      await game?.rooms?.joinRoom(invite.gameId);
+      await acceptGameInvite(invite, invite.gameId, null);
+      handleAcceptInvite(invite.gameId, invite.senderId, invite.gameType, invite.options);
+      return;
+    }
+
+    if (!game) {
+      throw new Error(`Unknown game type: ${invite.gameType}`);
+    }
+
+    const gameId = createGameId(invite.gameType);
+    await acceptGameInvite(invite, gameId, game);
+    handleAcceptInvite(gameId, invite.senderId, invite.gameType, invite.options);
+  };
+
+  const resumeGame = ({ gameId, opponentId, gameType, options }: UserGameEntry) => {
+    handleAcceptInvite(gameId, opponentId, gameType, options);
   };
 
   const handleCloseInvite = () => {
     setActiveInviteId(null);
   };
 
+  const spectateGame = (gameId: string) => {
+    setSpectatingGameId(gameId);
+  };
+
+  const stopSpectating = () => {
+    setSpectatingGameId(null);
+  };
+
   const value = {
     activeGameId,
     activeOpponentId,
+    activeGameType,
+    activeGameOptions,
     activeInviteId,
     pendingInvites,
+    receivedInvites,
+    outgoingInvites,
+    spectatingGameId,
+    spectateGame,
+    stopSpectating,
     selectedGame,
     setSelectedGame,
+    selectedGameOptions,
+    setSelectedGameOptions,
     setActiveInviteId,
     handleCloseGame,
     handleAcceptInvite,
+    acceptInvite,
+    resumeGame,
     handleCloseInvite
   };
 
   return <GameContext.Provider value={value}>{children}</GameContext.Provider>;
-}; 
\ No newline at end of file
+}; 
\ No newline at end of file
@@ -1,7 +1,8 @@
 import { initializeApp } from 'firebase/app'
-import { getAuth } from 'firebase/auth'
-import { getFirestore } from 'firebase/firestore'
-import { getDatabase } from 'firebase/database'
+import { getAuth, connectAuthEmulator } from 'firebase/auth'
+import { getFirestore, connectFirestoreEmulator } from 'firebase/firestore'
+import { getDatabase, connectDatabaseEmulator } from 'firebase/database'
+import { getFunctions, connectFunctionsEmulator } from 'firebase/functions'
 
 // Check if required environment variables are set
 const requiredEnvVars = [
@@ -39,5 +40,14 @@ const app = initializeApp(firebaseConfig)
 const auth = getAuth(app)
 const firestore = getFirestore(app)
 const database = getDatabase(app)
+const functions = getFunctions(app)
 
-export { app, auth, firestore, database } 
\ No newline at end of file
+// Talk to the local emulators started with `firebase emulators:start` (ports from firebase.json)
+if (import.meta.env.VITE_USE_FIREBASE_EMULATORS === 'true') {
+  connectAuthEmulator(auth, 'http://127.0.0.1:9099')
+  connectFirestoreEmulator(firestore, '127.0.0.1', 8080)
+  connectDatabaseEmulator(database, '127.0.0.1', 9000)
+  connectFunctionsEmulator(functions, '127.0.0.1', 5001)
+}
+
+export { app, auth, firestore, database, functions } 
\ No newline at end of file
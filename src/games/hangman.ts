@@ -0,0 +1,26 @@
+import { NewGameParams } from './types';
+import { HangmanGameState, MAX_WRONG_GUESSES } from './hangmanCore';
+
+export * from './hangmanCore';
+
+// The game waits for the setter to pick a word before guessing starts
+export const createHangmanGame = ({ currentUserId, opponentId, options }: NewGameParams): HangmanGameState => {
+  // Every Hangman invite names its setter (see buildInviteOptions in registry.ts)
+  const setter = options.setterId;
+  if (!setter) {
+    throw new Error('Hangman invites must say who sets the word');
+  }
+
+  return {
+    setter,
+    guesser: setter === currentUserId ? opponentId : currentUserId,
+    pattern: '',
+    guessedLetters: [],
+    wrongLetters: [],
+    maxWrongGuesses: MAX_WRONG_GUESSES,
+    status: 'waiting',
+    winner: null,
+    word: null,
+    createdAt: Date.now()
+  };
+};
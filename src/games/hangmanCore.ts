@@ -0,0 +1,54 @@
+// Hangman rules shared by the browser and the Cloud Functions in functions/.
+// Keep this file free of React and browser imports so both sides can compile it.
+
+export const HANGMAN_COLLECTION = 'hangmanGames';
+
+// The word itself lives in a separate document that only the setter and the functions can read
+export const HANGMAN_SECRETS_COLLECTION = 'hangmanSecrets';
+
+export const MAX_WRONG_GUESSES = 6;
+
+export interface HangmanGameState {
+  setter: string;
+  guesser: string;
+  // Masked word with '_' for each letter that hasn't been guessed yet
+  pattern: string;
+  guessedLetters: string[];
+  wrongLetters: string[];
+  maxWrongGuesses: number;
+  status: 'waiting' | 'active' | 'completed';
+  winner: string | null;
+  // Only filled in once the game is over
+  word: string | null;
+  createdAt: number;
+}
+
+export interface SetHangmanWordRequest {
+  gameId: string;
+  word: string;
+}
+
+export interface SubmitHangmanGuessRequest {
+  gameId: string;
+  letter: string;
+}
+
+// Collapse runs of spaces and upper-case the word, the way it's stored
+export const normalizeHangmanWord = (word: string): string => word.trim().toUpperCase().replace(/\s+/g, ' ');
+
+// Why a normalized word can't be used, or null if it's fine.
+// Only letters, spaces, hyphens and apostrophes are allowed.
+export const getHangmanWordProblem = (word: string): string | null => {
+  if (!/^[A-Z' -]+$/.test(word)) {
+    return 'Use letters, spaces, hyphens and apostrophes only.';
+  }
+
+  if (word.replace(/[^A-Z]/g, '').length < 3 || word.length > 30) {
+    return 'Pick something with at least 3 letters and at most 30 characters.';
+  }
+
+  return null;
+};
+
+export const maskWord = (word: string, guessedLetters: string[]) =>
+  word.split('').map(char => (/[A-Z]/.test(char) && !guessedLetters.includes(char) ? '_' : char)).join('');
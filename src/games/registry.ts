@@ -0,0 +1,110 @@
+import WordleGame from '../components/WordleGame';
+import TicTacToeGame from '../components/TicTacToeGame';
+import RockPaperScissorsGame from '../components/RockPaperScissorsGame';
+import HangmanGame from '../components/HangmanGame';
+import BestOfPicker from '../components/BestOfPicker';
+import WordleOptionsPicker from '../components/WordleOptionsPicker';
+import { GameDefinition } from './types';
+import {
+  WORDLE_COLLECTION,
+  DEFAULT_MAX_GUESSES,
+  DEFAULT_WORD_PACK,
+  MAX_ROOM_PLAYERS,
+  createWordleGame,
+  createWordleRoom
+} from './wordle';
+import { joinWordleRoom } from '../services/wordleService';
+import { TIC_TAC_TOE_COLLECTION, createTicTacToeGame } from './ticTacToe';
+import { ROCK_PAPER_SCISSORS_COLLECTION, createRockPaperScissorsGame } from './rockPaperScissors';
+import { HANGMAN_COLLECTION, createHangmanGame } from './hangman';
+
+// Every mini-game, in the order its tile appears on the Home page.
+// Adding a game also needs Firestore rules for its collection in firebase-rules.txt.
+const GAME_DEFINITIONS = {
+  tictactoe: {
+    id: 'tictactoe',
+    name: 'Tic Tac Toe',
+    icon: '⭕❌',
+    collection: TIC_TAC_TOE_COLLECTION,
+    createInitialState: createTicTacToeGame,
+    component: TicTacToeGame,
+    instructions: [
+      'Check which friends are currently shitting in the sidebar',
+      'Click the game icon next to their name to send an invite',
+      'Wait for them to accept your invitation',
+      'Take turns placing your mark and get three in a row to win'
+    ]
+  },
+  rockpaper: {
+    id: 'rockpaper',
+    name: 'Rock Paper Scissors',
+    icon: '✂️🪨📄',
+    collection: ROCK_PAPER_SCISSORS_COLLECTION,
+    createInitialState: createRockPaperScissorsGame,
+    component: RockPaperScissorsGame,
+    instructions: [
+      'Pick how many rounds to play above',
+      'Click the game icon next to a shitting friend to send an invite',
+      'Both of you throw at the same time each round',
+      'Throws stay sealed until both players have committed'
+    ],
+    defaultOptions: { bestOf: 3 },
+    optionsPicker: BestOfPicker
+  },
+  wordle: {
+    id: 'wordle',
+    name: 'Toilet Wordle',
+    icon: '🔤',
+    collection: WORDLE_COLLECTION,
+    createInitialState: createWordleGame,
+    component: WordleGame,
+    instructions: [
+      'Choose turns or a race, word length, guesses, hard mode and a word pack above, or set your own word',
+      'Click the game icon next to a shitting friend, or start a room to invite several',
+      'Taking turns, the first to find the word wins; in a race everyone guesses at once and the fewest guesses wins',
+      "It's a draw if everyone runs out of guesses, unless you set the word, in which case you win",
+      'Type or tap your guesses, and switch on color-blind tiles in the game if you need them'
+    ],
+    defaultOptions: { maxGuesses: DEFAULT_MAX_GUESSES, mode: 'turns', wordPack: DEFAULT_WORD_PACK },
+    optionsPicker: WordleOptionsPicker,
+    // Whoever sets a custom word watches the others guess it
+    buildInviteOptions: (options, senderId) => options.customWordId ? { ...options, setterId: senderId } : options,
+    rooms: {
+      maxPlayers: MAX_ROOM_PLAYERS,
+      createRoom: createWordleRoom,
+      joinRoom: joinWordleRoom
+    }
+  },
+  hangman: {
+    id: 'hangman',
+    name: 'Hangman',
+    icon: '👨‍🦯',
+    collection: HANGMAN_COLLECTION,
+    createInitialState: createHangmanGame,
+    component: HangmanGame,
+    instructions: [
+      'Click the game icon next to a shitting friend to send an invite',
+      'Once they accept, pick a secret word or phrase',
+      'Your friend guesses one letter at a time',
+      'They win if they solve it before 6 wrong guesses'
+    ],
+    // The inviter always sets the word
+    buildInviteOptions: (options, senderId) => ({ ...options, setterId: senderId })
+  }
+} satisfies Record<string, GameDefinition>;
+
+export type GameType = keyof typeof GAME_DEFINITIONS;
+
+export const GAMES: Record<GameType, GameDefinition> = GAME_DEFINITIONS;
+
+export const GAME_LIST: GameDefinition[] = Object.values(GAMES);
+
+// Check whether a selected game id is one we can actually play
+export function isPlayableGame(gameType: string | null): gameType is GameType {
+  return gameType !== null && gameType in GAMES;
+}
+
+// Look up a game by id, or null for unknown ids such as invites from newer versions
+export function getGame(gameType: string | null | undefined): GameDefinition | null {
+  return gameType && isPlayableGame(gameType) ? GAMES[gameType] : null;
+}
@@ -0,0 +1,60 @@
+// Finished games, kept after the game document and invite are cleaned up.
+// Keep this file free of React and browser imports so the functions can compile it.
+
+export const GAME_RESULTS_COLLECTION = 'gameResults';
+
+export interface GameResult {
+  gameId: string;
+  gameType: string;
+  players: string[];
+  // Null for a draw
+  winner: string | null;
+  // How the game ended, e.g. 'solved', 'draw' or 'resigned'
+  outcome: string;
+  // Guesses, or moves in games without guesses, each player made, keyed by user id
+  guessCounts: { [userId: string]: number };
+  startedAt: number;
+  completedAt: number;
+  durationMs: number;
+}
+
+export interface OpponentRecord {
+  opponentId: string;
+  wins: number;
+  losses: number;
+  draws: number;
+  lastPlayedAt: number;
+}
+
+// Tally a player's wins, losses and draws against each opponent, most recent first.
+// In a room, a loss only counts against whoever won, not everyone else who lost too.
+export const getRecordsByOpponent = (results: GameResult[], userId: string): OpponentRecord[] => {
+  const records: { [opponentId: string]: OpponentRecord } = {};
+
+  for (const result of results) {
+    const lostTo = result.winner !== userId ? result.winner : null;
+    const opponents = lostTo ? [lostTo] : result.players.filter(player => player !== userId);
+
+    for (const opponentId of opponents) {
+      const record = records[opponentId] || (records[opponentId] = {
+        opponentId,
+        wins: 0,
+        losses: 0,
+        draws: 0,
+        lastPlayedAt: 0
+      });
+
+      if (result.winner === null) {
+        record.draws++;
+      } else if (lostTo) {
+        record.losses++;
+      } else {
+        record.wins++;
+      }
+
+      record.lastPlayedAt = Math.max(record.lastPlayedAt, result.completedAt);
+    }
+  }
+
+  return Object.values(records).sort((a, b) => b.lastPlayedAt - a.lastPlayedAt);
+};
@@ -0,0 +1,24 @@
+import { NewGameParams } from './types';
+import { RockPaperScissorsGameState, ROUND_TIME_LIMIT_MS } from './rockPaperScissorsCore';
+
+export * from './rockPaperScissorsCore';
+
+export const createRockPaperScissorsGame = ({ currentUserId, opponentId, options }: NewGameParams): RockPaperScissorsGameState => {
+  const createdAt = Date.now();
+
+  return {
+    player1: currentUserId,
+    player2: opponentId,
+    bestOf: options.bestOf || 3,
+    round: 1,
+    commitments: {},
+    reveals: {},
+    rounds: [],
+    scores: { [currentUserId]: 0, [opponentId]: 0 },
+    status: 'active',
+    winner: null,
+    outcome: null,
+    roundDeadline: createdAt + ROUND_TIME_LIMIT_MS,
+    createdAt
+  };
+};
@@ -0,0 +1,95 @@
+// Rock Paper Scissors rules shared by the browser and the Cloud Functions in functions/.
+// Keep this file free of React and browser imports so both sides can compile it.
+
+export const ROCK_PAPER_SCISSORS_COLLECTION = 'rockPaperScissorsGames';
+
+// Time each round gets for both players to throw
+export const ROUND_TIME_LIMIT_MS = 60 * 1000;
+
+// Extra time to reveal once both have thrown, since reveals go through the functions
+export const REVEAL_GRACE_MS = 15 * 1000;
+
+export type Throw = 'rock' | 'paper' | 'scissors';
+
+export interface Reveal {
+  throw: Throw;
+  salt: string;
+}
+
+export interface RoundResult {
+  throws: { [playerId: string]: Throw | null };
+  winner: string | null;
+}
+
+// How a completed match ended: someone won enough rounds, or someone never finished a round
+export type RockPaperScissorsOutcome = 'won' | 'forfeit';
+
+export interface RockPaperScissorsGameState {
+  player1: string;
+  player2: string;
+  bestOf: 3 | 5;
+  round: number;
+  // Hashes of each player's sealed throw for the current round
+  commitments: { [playerId: string]: string };
+  // Throws and salts, checked and published by the functions once both players have committed
+  reveals: { [playerId: string]: Reveal };
+  rounds: RoundResult[];
+  scores: { [playerId: string]: number };
+  status: 'waiting' | 'active' | 'completed';
+  winner: string | null;
+  outcome: RockPaperScissorsOutcome | null;
+  // When the current round runs out; a player who hasn't thrown or revealed by then forfeits
+  roundDeadline: number;
+  createdAt: number;
+}
+
+export interface RevealRockPaperScissorsThrowRequest {
+  gameId: string;
+  throw: Throw;
+  salt: string;
+}
+
+export interface ClaimRockPaperScissorsTimeoutRequest {
+  gameId: string;
+}
+
+export const THROWS: { id: Throw; icon: string; label: string }[] = [
+  { id: 'rock', icon: '🪨', label: 'Rock' },
+  { id: 'paper', icon: '📄', label: 'Paper' },
+  { id: 'scissors', icon: '✂️', label: 'Scissors' }
+];
+
+export const BEATS: Record<Throw, Throw> = {
+  rock: 'scissors',
+  paper: 'rock',
+  scissors: 'paper'
+};
+
+// The parts hashed with the salt for a commitment, so a throw can't be reused in another round or game
+export const getCommitmentParts = (gameId: string, round: number, playerId: string, value: Throw): string[] =>
+  [gameId, String(round), playerId, value];
+
+// Rounds needed to take the match
+export const getWinsNeeded = (bestOf: number): number => Math.floor(bestOf / 2) + 1;
+
+// The player whose throw wins, or null for a tie
+export const getRoundWinner = (player1: string, throw1: Throw, player2: string, throw2: Throw): string | null => {
+  if (throw1 === throw2) return null;
+  return BEATS[throw1] === throw2 ? player1 : player2;
+};
+
+// The player who has to act before the round can finish: anyone who hasn't thrown,
+// then, once both have, anyone who hasn't revealed
+export const getStalledPlayers = (game: RockPaperScissorsGameState): string[] => {
+  const players = [game.player1, game.player2];
+  const bothCommitted = players.every(player => game.commitments[player]);
+  return bothCommitted
+    ? players.filter(player => !game.reveals[player])
+    : players.filter(player => !game.commitments[player]);
+};
+
+// When a player who stalled the round can be made to forfeit
+export const getForfeitDeadline = (game: RockPaperScissorsGameState): number => {
+  const bothCommitted = Boolean(game.commitments[game.player1] && game.commitments[game.player2]);
+  return game.roundDeadline + (bothCommitted ? REVEAL_GRACE_MS : 0);
+};
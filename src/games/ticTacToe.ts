@@ -0,0 +1,17 @@
+import { NewGameParams } from './types';
+import { TicTacToeGameState } from './ticTacToeCore';
+
+export * from './ticTacToeCore';
+
+// The player who creates the game plays X and moves first
+export const createTicTacToeGame = ({ currentUserId, opponentId }: NewGameParams): TicTacToeGameState => ({
+  board: Array(9).fill(''),
+  currentPlayer: currentUserId,
+  playerX: currentUserId,
+  playerO: opponentId,
+  status: 'active',
+  winner: null,
+  winningLine: null,
+  isDraw: false,
+  createdAt: Date.now()
+});
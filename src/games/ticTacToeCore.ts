@@ -0,0 +1,42 @@
+// Tic Tac Toe rules shared by the browser and the Cloud Functions in functions/.
+// Keep this file free of React and browser imports so both sides can compile it.
+
+export const TIC_TAC_TOE_COLLECTION = 'ticTacToeGames';
+
+export type Mark = 'X' | 'O' | '';
+
+export interface TicTacToeGameState {
+  board: Mark[];
+  currentPlayer: string;
+  playerX: string;
+  playerO: string;
+  status: 'waiting' | 'active' | 'completed';
+  winner: string | null;
+  winningLine: number[] | null;
+  isDraw: boolean;
+  createdAt: number;
+}
+
+// Every row, column and diagonal that wins the game
+const WINNING_LINES = [
+  [0, 1, 2], [3, 4, 5], [6, 7, 8],
+  [0, 3, 6], [1, 4, 7], [2, 5, 8],
+  [0, 4, 8], [2, 4, 6]
+];
+
+export const findWinningLine = (board: Mark[]): number[] | null => {
+  for (const line of WINNING_LINES) {
+    const [a, b, c] = line;
+    if (board[a] && board[a] === board[b] && board[a] === board[c]) {
+      return line;
+    }
+  }
+  return null;
+};
+
+// The player who owns the winning line, or null if nobody has three in a row
+export const getWinner = (game: TicTacToeGameState): string | null => {
+  const line = findWinningLine(game.board);
+  if (!line) return null;
+  return game.board[line[0]] === 'X' ? game.playerX : game.playerO;
+};
@@ -0,0 +1,80 @@
+import { ComponentType } from 'react';
+
+// Settings chosen by the inviter and carried on the invite
+export interface GameOptions {
+  bestOf?: 3 | 5;
+  // Guesses each player gets in Wordle
+  maxGuesses?: number;
+  // Player who picks the secret word in Hangman, or sets a custom word in Wordle
+  setterId?: string;
+  // Player who takes the first turn, e.g. swapped for a rematch
+  firstPlayerId?: string;
+  // Whether Wordle players take turns or race at the same time
+  mode?: 'turns' | 'race';
+  // Themed pack the Wordle answer comes from
+  wordPack?: string;
+  // A Wordle word the inviter set, saved privately by the functions under this id
+  customWordId?: string;
+  // Letters in each Wordle word, and whether revealed hints must be reused
+  wordLength?: number;
+  hardMode?: boolean;
+}
+
+// Props every game component receives from the game modal
+export interface GameComponentProps {
+  gameId: string;
+  // The other player, or the host when playing in a room
+  opponentId: string;
+  options: GameOptions;
+  onClose: () => void;
+}
+
+// Props for a game's settings picker shown on the Home page
+export interface GameOptionsPickerProps {
+  options: GameOptions;
+  onChange: (options: GameOptions) => void;
+}
+
+// Everything needed to create the first state of a game
+export interface NewGameParams {
+  currentUserId: string;
+  opponentId: string;
+  // The accepted invite the game starts from; unset for practice games
+  inviteId?: string;
+  options: GameOptions;
+}
+
+// Everything needed to open a room for several players
+export interface NewRoomParams {
+  hostId: string;
+  invitedIds: string[];
+  options: GameOptions;
+}
+
+// Lets the inviter bring several friends into one game
+export interface GameRoomSupport<TState extends object = object> {
+  // Most players a room can hold, host included
+  maxPlayers: number;
+  createRoom: (params: NewRoomParams) => TState;
+  // Add the current user to a room they were invited to
+  joinRoom: (gameId: string) => Promise<void>;
+}
+
+// A mini-game that can be selected, invited to and played
+export interface GameDefinition<TState extends object = object> {
+  id: string;
+  name: string;
+  icon: string;
+  // Firestore collection holding one document per game
+  collection: string;
+  createInitialState: (params: NewGameParams) => TState;
+  component: ComponentType<GameComponentProps>;
+  // Steps shown on the Home page when the game is selected
+  instructions: string[];
+  defaultOptions?: GameOptions;
+  optionsPicker?: ComponentType<GameOptionsPickerProps>;
+  // Adds options the sender decides implicitly, like who sets the word
+  buildInviteOptions?: (options: GameOptions, senderId: string) => GameOptions;
+  // Only set for games that can be played by more than two
+  rooms?: GameRoomSupport<TState>;
+}
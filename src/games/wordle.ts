@@ -0,0 +1,140 @@
+import { NewGameParams, NewRoomParams } from './types';
+import {
+  WordleGameState,
+  DEFAULT_MAX_GUESSES,
+  DEFAULT_WORD_LENGTH,
+  DEFAULT_WORD_PACK,
+  getTurnTimeLimit
+} from './wordleCore';
+
+export * from './wordleCore';
+
+const dictionaries: { [length: number]: Promise<Set<string>> } = {};
+
+// The allowed guesses for each word length, kept out of the main bundle
+const DICTIONARY_IMPORTS: { [length: number]: () => Promise<{ default: string[] }> } = {
+  4: () => import('./data/wordleDictionary4.json'),
+  5: () => import('./data/wordleDictionary.json'),
+  6: () => import('./data/wordleDictionary6.json'),
+  7: () => import('./data/wordleDictionary7.json')
+};
+
+// Lazily load the allowed-guess dictionary for a word length
+export const loadDictionary = (wordLength: number = DEFAULT_WORD_LENGTH): Promise<Set<string>> => {
+  if (!dictionaries[wordLength]) {
+    dictionaries[wordLength] = DICTIONARY_IMPORTS[wordLength]()
+      .then(module => new Set(module.default))
+      .catch(error => {
+        // Allow a retry on the next guess instead of caching the failure
+        delete dictionaries[wordLength];
+        throw error;
+      });
+  }
+  return dictionaries[wordLength];
+};
+
+let answers: Promise<string[]> | null = null;
+
+// Lazily load the answer list, only needed for practice games against the bot,
+// where the word is picked in the browser
+export const loadAnswers = (): Promise<string[]> => {
+  if (!answers) {
+    answers = import('./data/wordleAnswers.json')
+      .then(module => Object.values(module.default).flat())
+      .catch(error => {
+        answers = null;
+        throw error;
+      });
+  }
+  return answers;
+};
+
+// Start a game without a word; the server picks one on the first guess.
+// The player who creates it goes first unless the invite says otherwise, and
+// whoever set a custom word never takes a turn.
+export const createWordleGame = ({ currentUserId, opponentId, inviteId, options }: NewGameParams): WordleGameState => {
+  const wordSetter = options.customWordId ? options.setterId || opponentId : null;
+  const firstPlayer = wordSetter
+    ? wordSetter === currentUserId ? opponentId : currentUserId
+    : options.firstPlayerId || currentUserId;
+  const secondPlayer = firstPlayer === currentUserId ? opponentId : currentUserId;
+  const mode = options.mode || 'turns';
+  const createdAt = Date.now();
+
+  return {
+    hostId: currentUserId,
+    inviteId: inviteId || null,
+    players: [firstPlayer, secondPlayer],
+    invitedPlayers: [],
+    leftPlayers: [],
+    mode,
+    currentPlayer: firstPlayer,
+    guesses: { [firstPlayer]: [], [secondPlayer]: [] },
+    feedback: { [firstPlayer]: [], [secondPlayer]: [] },
+    moves: [],
+    maxGuesses: options.maxGuesses || DEFAULT_MAX_GUESSES,
+    wordLength: options.wordLength || DEFAULT_WORD_LENGTH,
+    hardMode: !!options.hardMode,
+    wordPack: options.wordPack || DEFAULT_WORD_PACK,
+    wordSetter,
+    customWordId: options.customWordId || null,
+    status: 'active',
+    winner: null,
+    outcome: null,
+    word: null,
+    turnDeadline: createdAt + getTurnTimeLimit(mode),
+    createdAt
+  };
+};
+
+// Open a room that waits for invited friends to join until the host starts it.
+// Players take turns in the order they joined, starting with the host unless
+// the host set the word for everyone else.
+export const createWordleRoom = ({ hostId, invitedIds, options }: NewRoomParams): WordleGameState => {
+  const createdAt = Date.now();
+
+  return {
+    hostId,
+    inviteId: null,
+    players: [hostId],
+    invitedPlayers: invitedIds,
+    leftPlayers: [],
+    mode: options.mode || 'turns',
+    currentPlayer: hostId,
+    guesses: { [hostId]: [] },
+    feedback: { [hostId]: [] },
+    moves: [],
+    maxGuesses: options.maxGuesses || DEFAULT_MAX_GUESSES,
+    wordLength: options.wordLength || DEFAULT_WORD_LENGTH,
+    hardMode: !!options.hardMode,
+    wordPack: options.wordPack || DEFAULT_WORD_PACK,
+    wordSetter: options.customWordId ? hostId : null,
+    customWordId: options.customWordId || null,
+    status: 'waiting',
+    winner: null,
+    outcome: null,
+    word: null,
+    // Set for real once the host starts the game
+    turnDeadline: createdAt + getTurnTimeLimit(options.mode || 'turns'),
+    createdAt
+  };
+};
+
+const COLOR_BLIND_STORAGE_KEY = 'wordle_color_blind';
+
+// The color-blind palette is a per-device preference, so it lives in localStorage
+export const loadColorBlindMode = (): boolean => {
+  try {
+    return localStorage.getItem(COLOR_BLIND_STORAGE_KEY) === 'true';
+  } catch (error) {
+    return false;
+  }
+};
+
+export const saveColorBlindMode = (enabled: boolean): void => {
+  try {
+    localStorage.setItem(COLOR_BLIND_STORAGE_KEY, String(enabled));
+  } catch (error) {
+    console.error('Error saving the color-blind setting:', error);
+  }
+};
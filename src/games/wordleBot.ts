@@ -0,0 +1,92 @@
+// A local Wordle opponent for practice games that never touch the server.
+// Keep this file free of React and browser imports, like wordleCore.
+
+import {
+  LetterState,
+  WordleGameState,
+  getNextPlayer,
+  scoreGuess,
+  encodeFeedback,
+  toScoredGuesses
+} from './wordleCore';
+
+// Stands in for the bot wherever a player id goes, e.g. in players and guesses
+export const BOT_PLAYER_ID = 'wordle-bot';
+
+export type WordleBotLevel = 'easy' | 'medium' | 'hard';
+
+export const BOT_LEVELS: { level: WordleBotLevel; label: string; description: string }[] = [
+  { level: 'easy', label: 'Easy', description: 'Only keeps its greens' },
+  { level: 'medium', label: 'Medium', description: 'Uses every hint from its own guesses' },
+  { level: 'hard', label: 'Hard', description: 'Uses your hints too and plays the likeliest word' }
+];
+
+type ScoredGuess = { guess: string; result: LetterState[] };
+
+// Whether a word could still be the answer after a scored guess
+const fitsGuess = (word: string, { guess, result }: ScoredGuess): boolean =>
+  encodeFeedback(scoreGuess(guess, word)) === encodeFeedback(result);
+
+// Whether a word keeps every green of a scored guess, ignoring the other hints
+const keepsGreens = (word: string, { guess, result }: ScoredGuess): boolean =>
+  result.every((state, i) => state !== 'correct' || word[i] === guess[i]);
+
+// Rank words by how common their letters are among the remaining candidates,
+// counting repeated letters once so the bot tries more distinct letters
+const pickLikeliest = (candidates: string[]): string => {
+  const letterCounts: { [letter: string]: number } = {};
+  for (const word of candidates) {
+    for (const letter of new Set(word)) {
+      letterCounts[letter] = (letterCounts[letter] || 0) + 1;
+    }
+  }
+
+  const scoreWord = (word: string) => [...new Set(word)].reduce((total, letter) => total + letterCounts[letter], 0);
+  return candidates.reduce((best, word) => (scoreWord(word) > scoreWord(best) ? word : best));
+};
+
+const pickRandom = (words: string[]): string => words[Math.floor(Math.random() * words.length)];
+
+// The bot's next guess. Every level only guesses words from the answer list it hasn't
+// tried yet; the higher levels narrow that list down with more of the hints.
+export const pickBotGuess = (level: WordleBotLevel, answers: string[], game: WordleGameState): string => {
+  const scoredGuessesOf = (playerId: string) =>
+    toScoredGuesses(game.guesses[playerId] || [], game.feedback[playerId] || []);
+
+  const hints = level === 'hard' ? game.players.flatMap(scoredGuessesOf) : scoredGuessesOf(BOT_PLAYER_ID);
+  const tried = new Set(hints.map(({ guess }) => guess));
+  const fits = level === 'easy' ? keepsGreens : fitsGuess;
+
+  const candidates = answers.filter(word => !tried.has(word) && hints.every(hint => fits(word, hint)));
+  const pool = candidates.length > 0 ? candidates : answers.filter(word => !tried.has(word));
+
+  return level === 'hard' ? pickLikeliest(pool) : pickRandom(pool);
+};
+
+// Score a guess and pass the turn, the same way the server does for a game between friends
+export const applyPracticeGuess = (
+  game: WordleGameState,
+  playerId: string,
+  guess: string,
+  answer: string
+): WordleGameState => {
+  const isCorrect = guess === answer;
+  const updated: WordleGameState = {
+    ...game,
+    guesses: { ...game.guesses, [playerId]: [...(game.guesses[playerId] || []), guess] },
+    feedback: { ...game.feedback, [playerId]: [...(game.feedback[playerId] || []), encodeFeedback(scoreGuess(guess, answer))] },
+    moves: [...game.moves, { playerId, time: Date.now() }]
+  };
+
+  if (isCorrect) {
+    return { ...updated, status: 'completed', winner: playerId, outcome: 'solved', word: answer };
+  }
+
+  const nextPlayer = getNextPlayer(updated, playerId);
+  if (!nextPlayer) {
+    return { ...updated, status: 'completed', outcome: 'draw', word: answer };
+  }
+
+  return { ...updated, currentPlayer: nextPlayer };
+};
+
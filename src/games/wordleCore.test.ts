@@ -0,0 +1,248 @@
+import { describe, it, expect } from 'vitest';
+import {
+  WordleGameState,
+  TURN_TIME_LIMIT_MS,
+  getTimedOutTurn,
+  hasSolved,
+  scoreGuess,
+  encodeFeedback,
+  toScoredGuesses,
+  getKeyboardStates,
+  getHardModeViolation,
+  canStillWinRace,
+  getWordleStandings,
+  getDailyDate,
+  getPreviousDailyDate,
+  createDailyWordleStats,
+  recordDailyResult,
+  getCurrentStreak
+} from './wordleCore';
+
+const NOW = 1_700_000_000_000;
+
+// A turns game between two players, with each player's guesses filled in as misses
+const createGame = (guessCounts: { [userId: string]: number }, currentPlayer: string): WordleGameState => {
+  const players = Object.keys(guessCounts);
+  const guessesOf = (count: number) => Array(count).fill('CRANE');
+  const feedbackOf = (count: number) => Array(count).fill('XXXXX');
+
+  return {
+    hostId: players[0],
+    inviteId: null,
+    players,
+    invitedPlayers: [],
+    leftPlayers: [],
+    mode: 'turns',
+    currentPlayer,
+    guesses: Object.fromEntries(players.map(player => [player, guessesOf(guessCounts[player])])),
+    feedback: Object.fromEntries(players.map(player => [player, feedbackOf(guessCounts[player])])),
+    moves: [],
+    maxGuesses: 6,
+    wordLength: 5,
+    hardMode: false,
+    wordPack: 'classic',
+    wordSetter: null,
+    customWordId: null,
+    status: 'active',
+    winner: null,
+    outcome: null,
+    word: null,
+    turnDeadline: NOW - 1,
+    createdAt: NOW - 60 * 60 * 1000
+  };
+};
+
+describe('getTimedOutTurn', () => {
+  it('passes the turn to the opponent', () => {
+    const game = createGame({ alice: 2, bob: 2 }, 'alice');
+
+    expect(getTimedOutTurn(game, NOW)).toEqual({ currentPlayer: 'bob', turnDeadline: NOW + TURN_TIME_LIMIT_MS });
+  });
+
+  it('gives the turn back when the timed-out player is the only one with guesses left', () => {
+    const game = createGame({ alice: 3, bob: 6 }, 'alice');
+
+    expect(getTimedOutTurn(game, NOW)).toEqual({ currentPlayer: 'alice', turnDeadline: NOW + TURN_TIME_LIMIT_MS });
+  });
+
+  it('skips an opponent who has left', () => {
+    const game = { ...createGame({ alice: 1, bob: 1, carol: 1 }, 'alice'), leftPlayers: ['bob'] };
+
+    expect(getTimedOutTurn(game, NOW)?.currentPlayer).toBe('carol');
+  });
+
+  it('returns null once nobody can guess', () => {
+    const game = createGame({ alice: 6, bob: 6 }, 'alice');
+
+    expect(getTimedOutTurn(game, NOW)).toBeNull();
+  });
+});
+
+describe('hasSolved', () => {
+  it('is true when the latest guess is all green', () => {
+    const game = createGame({ alice: 0, bob: 0 }, 'alice');
+    game.feedback.alice = ['XYXXG', 'GGGGG'];
+
+    expect(hasSolved(game, 'alice')).toBe(true);
+  });
+
+  it('ignores a stored winner whose colors never went all green', () => {
+    const game = { ...createGame({ alice: 0, bob: 0 }, 'alice'), winner: 'alice' };
+    game.feedback.alice = ['XYXXG'];
+
+    expect(hasSolved(game, 'alice')).toBe(false);
+    expect(hasSolved(game, 'bob')).toBe(false);
+  });
+});
+
+describe('scoreGuess', () => {
+  // Colors written the way they're stored: G green, Y yellow, X grey
+  it.each([
+    ['CRANE', 'CRANE', 'GGGGG'],
+    ['POOPS', 'FLUSH', 'XXXXY'],
+    // Only as many yellows as the answer has copies of the letter
+    ['SPEED', 'ABIDE', 'XXYXY'],
+    ['LLAMA', 'HELLO', 'YYXXX'],
+    // A green uses up its copy before any yellows are handed out
+    ['EERIE', 'THERE', 'YXYXG'],
+    ['SASSY', 'CLASS', 'YYXGX']
+  ])('scores %s against %s as %s', (guess, answer, expected) => {
+    expect(encodeFeedback(scoreGuess(guess, answer))).toBe(expected);
+  });
+});
+
+describe('getKeyboardStates', () => {
+  it('keeps the best color a repeated letter got', () => {
+    const states = getKeyboardStates(toScoredGuesses(['SPEED'], ['XXYXY']));
+
+    expect(states).toEqual({ S: 'absent', P: 'absent', E: 'present', D: 'present' });
+  });
+
+  it('upgrades a yellow to green but never the other way round', () => {
+    const scored = toScoredGuesses(['SPEED', 'ABIDE', 'EERIE'], ['XXYXY', 'GGGGG', 'XXXYG']);
+
+    expect(getKeyboardStates(scored)).toMatchObject({ E: 'correct', D: 'correct', I: 'correct', R: 'absent' });
+  });
+});
+
+describe('getHardModeViolation', () => {
+  it('keeps a green letter in its spot', () => {
+    const scored = toScoredGuesses(['CRANE'], ['GXXXX']);
+
+    expect(getHardModeViolation('SLATE', scored)).toBe('Hard mode: the 1st letter must be C!');
+    expect(getHardModeViolation('CLOTH', scored)).toBeNull();
+  });
+
+  it('reuses a yellow letter anywhere', () => {
+    const scored = toScoredGuesses(['CRANE'], ['XYXXX']);
+
+    expect(getHardModeViolation('SLOTH', scored)).toBe('Hard mode: your guess must contain R!');
+    expect(getHardModeViolation('ROBOT', scored)).toBeNull();
+  });
+
+  it('uses a letter hinted twice at least twice', () => {
+    const scored = toScoredGuesses(['EERIE'], ['YXYXG']);
+
+    expect(getHardModeViolation('FIBRE', scored)).toBe('Hard mode: your guess must contain E!');
+    expect(getHardModeViolation('THERE', scored)).toBeNull();
+  });
+});
+
+describe('canStillWinRace', () => {
+  // A race where alice solved it on her third guess
+  const createRace = (guessCounts: { [userId: string]: number }): WordleGameState => {
+    const game = { ...createGame({ alice: 0, ...guessCounts }, 'alice'), mode: 'race' as const, winner: 'alice' };
+    game.feedback.alice = ['XXXXX', 'XYXXX', 'GGGGG'];
+    return game;
+  };
+
+  it('lets players with guesses left win until someone solves it', () => {
+    const game = { ...createGame({ alice: 5, bob: 6 }, 'alice'), mode: 'race' as const };
+
+    expect(canStillWinRace(game, 'alice')).toBe(true);
+    expect(canStillWinRace(game, 'bob')).toBe(false);
+  });
+
+  it('needs fewer guesses than the leader, since the earlier solver wins a tie', () => {
+    const game = createRace({ bob: 1, carol: 2 });
+
+    expect(canStillWinRace(game, 'bob')).toBe(true);
+    expect(canStillWinRace(game, 'carol')).toBe(false);
+  });
+
+  it('rules out the leader, players who left and whoever set the word', () => {
+    const game = { ...createRace({ bob: 0, carol: 0 }), leftPlayers: ['bob'], wordSetter: 'carol' };
+
+    expect(canStillWinRace(game, 'alice')).toBe(false);
+    expect(canStillWinRace(game, 'bob')).toBe(false);
+    expect(canStillWinRace(game, 'carol')).toBe(false);
+  });
+});
+
+describe('getWordleStandings', () => {
+  it('ranks the winner, then the closest guess, then fewer guesses, then anyone who left', () => {
+    const game = {
+      ...createGame({ dave: 0, bob: 0, carol: 0, alice: 0 }, 'dave'),
+      mode: 'race' as const,
+      winner: 'alice',
+      leftPlayers: ['dave']
+    };
+    game.feedback = {
+      alice: ['XXXXX', 'GGGGG'],
+      bob: ['GGGGX', 'XXXXX'],
+      carol: ['GGGGX'],
+      dave: ['GGGYX']
+    };
+
+    expect(getWordleStandings(game)).toEqual(['alice', 'carol', 'bob', 'dave']);
+  });
+});
+
+describe('getDailyDate', () => {
+  it('rolls over at midnight UTC, whatever the local time zone', () => {
+    expect(getDailyDate(new Date('2024-03-01T23:59:59Z'))).toBe('2024-03-01');
+    expect(getDailyDate(new Date('2024-03-02T00:00:00Z'))).toBe('2024-03-02');
+    expect(getDailyDate(new Date('2024-03-02T01:30:00+02:00'))).toBe('2024-03-01');
+  });
+
+  it('steps back across month and year ends', () => {
+    expect(getPreviousDailyDate('2024-03-01')).toBe('2024-02-29');
+    expect(getPreviousDailyDate('2025-01-01')).toBe('2024-12-31');
+  });
+});
+
+describe('recordDailyResult', () => {
+  it('builds a streak over consecutive days', () => {
+    let stats = recordDailyResult(createDailyWordleStats(), '2024-02-28', true, 3);
+    stats = recordDailyResult(stats, '2024-02-29', true, 4);
+    stats = recordDailyResult(stats, '2024-03-01', true, 3);
+
+    expect(stats).toMatchObject({ played: 3, wins: 3, currentStreak: 3, maxStreak: 3, lastWonDate: '2024-03-01' });
+    expect(stats.guessDistribution).toEqual([0, 0, 2, 1, 0, 0]);
+  });
+
+  it('starts a new streak after a missed day, keeping the best one', () => {
+    let stats = recordDailyResult(createDailyWordleStats(), '2024-03-01', true, 2);
+    stats = recordDailyResult(stats, '2024-03-02', true, 2);
+    stats = recordDailyResult(stats, '2024-03-04', true, 5);
+
+    expect(stats).toMatchObject({ played: 3, wins: 3, currentStreak: 1, maxStreak: 2 });
+    expect(getCurrentStreak(stats, '2024-03-05')).toBe(1);
+    expect(getCurrentStreak(stats, '2024-03-06')).toBe(0);
+  });
+
+  it('ends the streak on a loss without counting it in the distribution', () => {
+    let stats = recordDailyResult(createDailyWordleStats(), '2024-03-01', true, 4);
+    stats = recordDailyResult(stats, '2024-03-02', false, 6);
+
+    expect(stats).toMatchObject({ played: 2, wins: 1, currentStreak: 0, maxStreak: 1, lastPlayedDate: '2024-03-02' });
+    expect(stats.guessDistribution).toEqual([0, 0, 0, 1, 0, 0]);
+  });
+
+  it('only counts a day once', () => {
+    const stats = recordDailyResult(createDailyWordleStats(), '2024-03-01', true, 3);
+
+    expect(recordDailyResult(stats, '2024-03-01', true, 3)).toEqual(stats);
+    expect(recordDailyResult(stats, '2024-03-01', false, 6)).toEqual(stats);
+  });
+});
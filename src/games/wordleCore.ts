@@ -0,0 +1,465 @@
+// Wordle rules shared by the browser and the Cloud Functions in functions/.
+// Keep this file free of React and browser imports so both sides can compile it.
+
+export const WORDLE_COLLECTION = 'wordleGames';
+
+// Answers live here, keyed by game id, where only the functions can read them
+export const WORDLE_ANSWERS_COLLECTION = 'wordleAnswers';
+
+// Daily puzzles and themed packs are always 5 letters
+export const DEFAULT_WORD_LENGTH = 5;
+export const WORD_LENGTH_CHOICES = [4, 5, 6, 7] as const;
+
+export const DEFAULT_MAX_GUESSES = 6;
+export const MAX_GUESSES_CHOICES = [4, 6, 8] as const;
+
+// Most players a room can hold, host included
+export const MAX_ROOM_PLAYERS = 6;
+
+// Time each player has to make a guess before their turn passes to the opponent
+export const TURN_TIME_LIMIT_MS = 90 * 1000;
+
+// A player whose every session has been gone this long when their turn runs out forfeits
+export const DISCONNECT_GRACE_MS = 60 * 1000;
+
+// A race ends once nobody has guessed for this long
+export const RACE_IDLE_LIMIT_MS = 3 * 60 * 1000;
+
+// Take turns guessing, or race: everyone guesses at once and sees only the others' colors
+export type WordleMode = 'turns' | 'race';
+
+// Race guesses stay private until the game ends, stored per player at
+// wordleRaceGuesses/{gameId}/players/{userId} where only that player can read them
+export const WORDLE_RACE_GUESSES_COLLECTION = 'wordleRaceGuesses';
+export const WORDLE_RACE_PLAYERS_COLLECTION = 'players';
+
+export interface WordleRaceGuesses {
+  guesses: string[];
+}
+
+// Games pick their answer from a themed pack in data/wordlePacks.json, or from the
+// full answer list for the classic pack
+export const DEFAULT_WORD_PACK = 'classic';
+
+// Words a challenger set for a friend to guess, kept where only the functions and
+// the challenger can read them. Invites carry the document id, never the word.
+export const WORDLE_CUSTOM_WORDS_COLLECTION = 'wordleCustomWords';
+
+export interface WordleCustomWord {
+  ownerId: string;
+  word: string;
+  // The game the word was played in, once it starts; a word is only ever played once
+  gameId: string | null;
+  createdAt: number;
+}
+
+export interface CreateWordleCustomWordRequest {
+  word: string;
+}
+
+export interface CreateWordleCustomWordResponse {
+  customWordId: string;
+}
+
+// How long until the next deadline after a guess, or once the game starts
+export const getTurnTimeLimit = (mode: WordleMode): number =>
+  mode === 'race' ? RACE_IDLE_LIMIT_MS : TURN_TIME_LIMIT_MS;
+
+// How a completed game ended: someone found the word, both ran out, someone gave up,
+// someone left and didn't come back in time, or nobody found a challenger's word
+export type WordleOutcome = 'solved' | 'draw' | 'resigned' | 'forfeit' | 'stumped';
+
+// One guess in the order it was made. The letters and colors stay on the boards, so
+// a move gives nothing away while a race's guesses are private.
+export interface WordleMove {
+  playerId: string;
+  time: number;
+}
+
+export interface WordleGameState {
+  // Player who created the game; in a room, the only one who can start it
+  hostId: string;
+  // The accepted invite a two-player game was started from; null for rooms
+  inviteId: string | null;
+  // Everyone playing, in turn order
+  players: string[];
+  // Friends invited to a room who haven't joined yet
+  invitedPlayers: string[];
+  // Players who resigned or forfeited and no longer take turns
+  leftPlayers: string[];
+  mode: WordleMode;
+  // Whose turn it is; unused in a race
+  currentPlayer: string;
+  // Each player's guesses, keyed by user id. In a race these stay empty until the
+  // game ends, so count guesses with getGuessCount.
+  guesses: { [userId: string]: string[] };
+  // Encoded colors for each guess, in the same order as the guesses
+  feedback: { [userId: string]: string[] };
+  // Every guess in order, for replays; missing from games started before replays
+  moves: WordleMove[];
+  // Guesses each player gets before they're out
+  maxGuesses: number;
+  // Letters in the answer and every guess
+  wordLength: number;
+  // Whether every revealed hint has to be used in later guesses
+  hardMode: boolean;
+  // Pack the answer is picked from, unless a challenger set the word
+  wordPack: string;
+  // Player who set a custom word for the others to guess; they don't guess themselves
+  wordSetter: string | null;
+  customWordId: string | null;
+  // Rooms stay 'waiting' until the host starts them
+  status: 'waiting' | 'active' | 'completed';
+  // In a race, whoever has solved it in the fewest guesses so far
+  winner: string | null;
+  outcome: WordleOutcome | null;
+  // Stays null until the game is completed
+  word: string | null;
+  // When the current player's turn runs out; in a race, when it ends for being idle
+  turnDeadline: number;
+  createdAt: number;
+}
+
+export interface SubmitWordleGuessRequest {
+  gameId: string;
+  guess: string;
+}
+
+export interface SubmitWordleGuessResponse {
+  result: LetterState[];
+  isCorrect: boolean;
+}
+
+export interface ResignWordleGameRequest {
+  gameId: string;
+}
+
+export interface ClaimWordleTimeoutRequest {
+  gameId: string;
+}
+
+export interface WordleRoomRequest {
+  gameId: string;
+}
+
+// How many guesses a player has made, even while their letters are private
+export const getGuessCount = (game: WordleGameState, player: string): number =>
+  (game.feedback[player] || []).length;
+
+// How many guesses each player had made after the first `step` moves, to rebuild
+// the boards at any point in a replay
+export const getGuessCountsAtMove = (game: WordleGameState, step: number): { [userId: string]: number } => {
+  const counts: { [userId: string]: number } = {};
+  for (const move of (game.moves || []).slice(0, step)) {
+    counts[move.playerId] = (counts[move.playerId] || 0) + 1;
+  }
+  return counts;
+};
+
+// Everyone trying to find the word, which leaves out a challenger who set it
+export const getGuessers = (game: WordleGameState): string[] =>
+  game.players.filter(player => player !== game.wordSetter);
+
+// Players still in the game, in turn order
+export const getRemainingPlayers = (game: WordleGameState): string[] =>
+  game.players.filter(player => !game.leftPlayers.includes(player));
+
+// The next player after the given one who can still guess, wrapping around the
+// turn order and ending with that player themselves; null once nobody can
+export const getNextPlayer = (game: WordleGameState, afterPlayer: string): string | null => {
+  const start = game.players.indexOf(afterPlayer);
+
+  for (let step = 1; step <= game.players.length; step++) {
+    const player = game.players[(start + step) % game.players.length];
+
+    if (
+      !game.leftPlayers.includes(player) &&
+      player !== game.wordSetter &&
+      getGuessCount(game, player) < game.maxGuesses
+    ) {
+      return player;
+    }
+  }
+
+  return null;
+};
+
+// The turn after the current player runs out of time without leaving the app. It passes
+// to the next player who can still guess, or back to the same player when nobody else
+// can, so a timeout never ends the game under someone with guesses left. Null once
+// nobody can guess.
+export const getTimedOutTurn = (
+  game: WordleGameState,
+  now: number
+): Pick<WordleGameState, 'currentPlayer' | 'turnDeadline'> | null => {
+  const nextPlayer = getNextPlayer(game, game.currentPlayer);
+  return nextPlayer ? { currentPlayer: nextPlayer, turnDeadline: now + TURN_TIME_LIMIT_MS } : null;
+};
+
+// Whether a player's latest guess found the word, going by the colors the functions scored
+export const hasSolved = (game: WordleGameState, player: string): boolean => {
+  const feedback = game.feedback[player] || [];
+  const latest = feedback[feedback.length - 1];
+  return Boolean(latest) && latest.split('').every(code => code === FEEDBACK_CODES.correct);
+};
+
+// Whether a racer could still take the lead: solving in as many guesses as the
+// leader isn't enough, since the leader got there first
+export const canStillWinRace = (game: WordleGameState, player: string): boolean => {
+  if (game.leftPlayers.includes(player) || player === game.winner || player === game.wordSetter) return false;
+
+  const guessCount = getGuessCount(game, player);
+  return guessCount < game.maxGuesses && (!game.winner || guessCount + 1 < getGuessCount(game, game.winner));
+};
+
+// Daily solo puzzles, stored per user at dailyWordleGames/{userId}/days/{date}
+// where only that user can read them
+export const DAILY_WORDLE_COLLECTION = 'dailyWordleGames';
+export const DAILY_WORDLE_DAYS_COLLECTION = 'days';
+export const DAILY_WORDLE_STATS_COLLECTION = 'dailyWordleStats';
+
+export interface DailyWordleGameState {
+  userId: string;
+  date: string;
+  guesses: string[];
+  feedback: string[];
+  maxGuesses: number;
+  status: 'active' | 'completed';
+  solved: boolean;
+  // Stays null until the puzzle is completed
+  word: string | null;
+  createdAt: number;
+}
+
+export interface DailyWordleStats {
+  played: number;
+  wins: number;
+  currentStreak: number;
+  maxStreak: number;
+  lastPlayedDate: string | null;
+  lastWonDate: string | null;
+  // Wins by guess count; index 0 is a win on the first guess
+  guessDistribution: number[];
+}
+
+export interface SubmitDailyWordleGuessRequest {
+  // The puzzle the player is looking at, so a guess made after midnight isn't
+  // scored against the next day's word
+  date: string;
+  guess: string;
+}
+
+// Everyone gets the same puzzle per UTC day, e.g. "2024-03-01"
+export const getDailyDate = (date: Date = new Date()): string => date.toISOString().slice(0, 10);
+
+export const getPreviousDailyDate = (dailyDate: string): string =>
+  getDailyDate(new Date(Date.parse(dailyDate) - 24 * 60 * 60 * 1000));
+
+export const createDailyWordleStats = (): DailyWordleStats => ({
+  played: 0,
+  wins: 0,
+  currentStreak: 0,
+  maxStreak: 0,
+  lastPlayedDate: null,
+  lastWonDate: null,
+  guessDistribution: Array(DEFAULT_MAX_GUESSES).fill(0)
+});
+
+// Fold a finished daily puzzle into a player's stats. Each day only counts once.
+export const recordDailyResult = (
+  stats: DailyWordleStats,
+  date: string,
+  solved: boolean,
+  guessCount: number
+): DailyWordleStats => {
+  if (stats.lastPlayedDate === date) {
+    return stats;
+  }
+
+  if (!solved) {
+    return { ...stats, played: stats.played + 1, currentStreak: 0, lastPlayedDate: date };
+  }
+
+  const currentStreak = stats.lastWonDate === getPreviousDailyDate(date) ? stats.currentStreak + 1 : 1;
+  const guessDistribution = [...stats.guessDistribution];
+  guessDistribution[guessCount - 1] = (guessDistribution[guessCount - 1] || 0) + 1;
+
+  return {
+    played: stats.played + 1,
+    wins: stats.wins + 1,
+    currentStreak,
+    maxStreak: Math.max(stats.maxStreak, currentStreak),
+    lastPlayedDate: date,
+    lastWonDate: date,
+    guessDistribution
+  };
+};
+
+// A streak only counts while the player hasn't skipped a day
+export const getCurrentStreak = (stats: DailyWordleStats, today: string): number =>
+  stats.lastWonDate === today || stats.lastWonDate === getPreviousDailyDate(today) ? stats.currentStreak : 0;
+
+export type LetterState = 'correct' | 'present' | 'absent';
+
+// Score a guess the standard way: exact matches first, then yellows only while
+// the answer still has unmatched copies of that letter
+export const scoreGuess = (guess: string, answer: string): LetterState[] => {
+  const result: LetterState[] = Array(guess.length).fill('absent');
+  const remaining: { [letter: string]: number } = {};
+
+  for (let i = 0; i < guess.length; i++) {
+    if (guess[i] === answer[i]) {
+      result[i] = 'correct';
+    } else {
+      remaining[answer[i]] = (remaining[answer[i]] || 0) + 1;
+    }
+  }
+
+  for (let i = 0; i < guess.length; i++) {
+    if (result[i] !== 'correct' && remaining[guess[i]] > 0) {
+      result[i] = 'present';
+      remaining[guess[i]]--;
+    }
+  }
+
+  return result;
+};
+
+// Firestore can't store nested arrays, so each scored guess is kept as a string
+// with one letter per tile, e.g. "GYXXG"
+const FEEDBACK_CODES: Record<LetterState, string> = {
+  correct: 'G',
+  present: 'Y',
+  absent: 'X'
+};
+
+export const encodeFeedback = (result: LetterState[]): string =>
+  result.map(state => FEEDBACK_CODES[state]).join('');
+
+export const decodeFeedback = (feedback: string): LetterState[] =>
+  feedback.split('').map(code =>
+    code === FEEDBACK_CODES.correct ? 'correct' : code === FEEDBACK_CODES.present ? 'present' : 'absent'
+  );
+
+const SHARE_SQUARES: Record<LetterState, string> = {
+  correct: '🟩',
+  present: '🟨',
+  absent: '⬛'
+};
+
+// Orange and blue stay apart for players who can't tell green from yellow
+const COLOR_BLIND_SHARE_SQUARES: Record<LetterState, string> = {
+  correct: '🟧',
+  present: '🟦',
+  absent: '⬛'
+};
+
+// The colored-square grid for a set of guesses, one row per guess, with no letters
+export const toEmojiGrid = (feedback: string[], colorBlind: boolean = false): string => {
+  const squares = colorBlind ? COLOR_BLIND_SHARE_SQUARES : SHARE_SQUARES;
+  return feedback.map(result => decodeFeedback(result).map(state => squares[state]).join('')).join('\n');
+};
+
+// What each result means, read out by screen readers
+export const LETTER_STATE_LABELS: Record<LetterState, string> = {
+  correct: 'in the right spot',
+  present: 'in the word, wrong spot',
+  absent: 'not in the word'
+};
+
+// Shapes drawn on tiles in the color-blind palette, so results never rely on color alone
+export const LETTER_STATE_SHAPES: Record<LetterState, string> = {
+  correct: '●',
+  present: '▲',
+  absent: ''
+};
+
+// A scored guess read aloud, e.g. "R in the right spot, A not in the word, ..."
+export const describeScoredGuess = (guess: string, result: LetterState[]): string =>
+  result.map((state, i) => `${guess[i] || `Letter ${i + 1}`} ${LETTER_STATE_LABELS[state]}`).join(', ');
+
+const LETTER_STATE_RANK: Record<LetterState, number> = {
+  absent: 0,
+  present: 1,
+  correct: 2
+};
+
+const ORDINALS = ['1st', '2nd', '3rd', '4th', '5th', '6th', '7th'];
+
+// In hard mode every revealed hint has to be used: greens stay where they are and
+// yellows appear somewhere in the guess. Returns what a guess breaks, or null if it's allowed.
+export const getHardModeViolation = (
+  guess: string,
+  scoredGuesses: { guess: string; result: LetterState[] }[]
+): string | null => {
+  for (const { guess: previous, result } of scoredGuesses) {
+    const greenIndex = result.findIndex((state, i) => state === 'correct' && guess[i] !== previous[i]);
+    if (greenIndex !== -1) {
+      return `Hard mode: the ${ORDINALS[greenIndex]} letter must be ${previous[greenIndex]}!`;
+    }
+
+    // Count each hinted letter, so a letter revealed twice has to be used twice
+    const hinted: { [letter: string]: number } = {};
+    result.forEach((state, i) => {
+      if (state !== 'absent') hinted[previous[i]] = (hinted[previous[i]] || 0) + 1;
+    });
+
+    for (const [letter, count] of Object.entries(hinted)) {
+      if (guess.split('').filter(char => char === letter).length < count) {
+        return `Hard mode: your guess must contain ${letter}!`;
+      }
+    }
+  }
+
+  return null;
+};
+
+// Pair stored guesses with their decoded colors
+export const toScoredGuesses = (
+  guesses: string[],
+  feedback: string[]
+): { guess: string; result: LetterState[] }[] =>
+  guesses.map((guess, i) => ({ guess, result: decodeFeedback(feedback[i] || '') }));
+
+// Best-known state of each letter across a set of scored guesses
+export const getKeyboardStates = (
+  scoredGuesses: { guess: string; result: LetterState[] }[]
+): { [letter: string]: LetterState } => {
+  const states: { [letter: string]: LetterState } = {};
+
+  for (const { guess, result } of scoredGuesses) {
+    guess.split('').forEach((letter, i) => {
+      const current = states[letter];
+      if (!current || LETTER_STATE_RANK[result[i]] > LETTER_STATE_RANK[current]) {
+        states[letter] = result[i];
+      }
+    });
+  }
+
+  return states;
+};
+
+// How close a player's best guess came: two points per green, one per yellow
+const getBestFeedbackScore = (feedback: string[]): number =>
+  Math.max(0, ...feedback.map(result =>
+    result.split('').reduce((score, code) =>
+      score + (code === FEEDBACK_CODES.correct ? 2 : code === FEEDBACK_CODES.present ? 1 : 0), 0)
+  ));
+
+// Final order of a game's players: the winner, then whoever got closest to the
+// word (fewer guesses breaking ties), then anyone who resigned or forfeited
+export const getWordleStandings = (game: WordleGameState): string[] => {
+  const rank = (player: string) => [
+    player === game.winner ? 0 : 1,
+    game.leftPlayers.includes(player) ? 1 : 0,
+    -getBestFeedbackScore(game.feedback[player] || []),
+    getGuessCount(game, player)
+  ];
+
+  return [...game.players].sort((a, b) => {
+    const rankA = rank(a);
+    const rankB = rank(b);
+    const index = rankA.findIndex((value, i) => value !== rankB[i]);
+    return index === -1 ? 0 : rankA[index] - rankB[index];
+  });
+};
@@ -0,0 +1,40 @@
+import type { GameType } from '../games/registry';
+import { GameOptions } from '../games/types';
+
+export interface GameInviteData {
+  id: string;
+  senderId: string;
+  senderName: string;
+  receiverId: string;
+  receiverName?: string;
+  gameType: GameType;
+  status: 'pending' | 'accepted' | 'rejected' | 'cancelled' | 'expired';
+  createdAt: number;
+  // A pending invite can no longer be accepted after this time
+  expiresAt: number;
+  // When the invite was declined, cancelled or expired
+  respondedAt?: number;
+  // Set once the invite is accepted, or from the start for an invite to a room
+  gameId?: string;
+  options?: GameOptions;
+  // Everyone invited to the room, host included; unset for two-player invites
+  roomSize?: number;
+  // The finished game this invite asks to play again
+  rematchOf?: string;
+}
+
+// A game the user joined, indexed at users/{uid}/games/{gameId} so it can be reopened later
+export interface UserGameEntry {
+  gameId: string;
+  gameType: GameType;
+  // Who the game was opened against; the host for rooms
+  opponentId: string;
+  options: GameOptions;
+  // Set once the game is seen to be over, so it drops off the list
+  finished: boolean;
+  joinedAt: number;
+  // Null until the user first opens it, e.g. when a friend accepted their invite
+  lastOpenedAt: number | null;
+  // The finished game this one is a rematch of, which it may replace when it opens
+  rematchOf?: string;
+}
@@ -10,6 +10,8 @@ export interface Tweet {
   likedBy: string[];
   media?: string[];
   isPublic: boolean;
+  // Page of a finished game the tweet shares, e.g. /wordle/{gameId}
+  link?: string;
 }
 
 export interface TimelineCache {
@@ -19,6 +21,12 @@ export interface TimelineCache {
   lastLoadedActivity?: number; // Timestamp of the last activity we've loaded
 }
 
+// A tweet prefilled elsewhere in the app, handed to the Tweets page as router state
+export interface TweetDraft {
+  content: string;
+  link?: string;
+}
+
 // New interface for tracking tweet activity
 export interface TweetActivity {
   id?: string;
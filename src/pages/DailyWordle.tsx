@@ -0,0 +1,145 @@
+import { useState, useEffect } from 'react'
+import { FirebaseError } from 'firebase/app'
+import { doc, onSnapshot } from 'firebase/firestore'
+import { Link } from 'react-router-dom'
+import { FaCalendarDay } from 'react-icons/fa'
+import { useAuth } from '../contexts/AuthContext'
+import { firestore } from '../firebase/config'
+import { submitDailyWordleGuess } from '../services/wordleService'
+import WordleGuessRows from '../components/WordleGuessRows'
+import WordleGuessEntry from '../components/WordleGuessEntry'
+import DailyWordleStatsCard from '../components/DailyWordleStatsCard'
+import WordleColorBlindToggle from '../components/WordleColorBlindToggle'
+import {
+  DAILY_WORDLE_COLLECTION,
+  DAILY_WORDLE_DAYS_COLLECTION,
+  DEFAULT_MAX_GUESSES,
+  DailyWordleGameState,
+  getDailyDate,
+  getKeyboardStates,
+  toScoredGuesses,
+  loadColorBlindMode
+} from '../games/wordle'
+
+const DailyWordle = () => {
+  const { currentUser } = useAuth()
+  // Fixed when the page opens so a guess after midnight isn't scored against tomorrow's word
+  const [date] = useState(getDailyDate)
+  const [gameState, setGameState] = useState<DailyWordleGameState | null>(null)
+  const [loading, setLoading] = useState(true)
+  const [message, setMessage] = useState('')
+  const [colorBlind, setColorBlind] = useState(loadColorBlindMode)
+
+  // Listen for today's puzzle, which doesn't exist until the first guess
+  useEffect(() => {
+    if (!currentUser) return
+
+    const gameRef = doc(
+      firestore,
+      DAILY_WORDLE_COLLECTION,
+      currentUser.uid,
+      DAILY_WORDLE_DAYS_COLLECTION,
+      date
+    )
+
+    const unsubscribe = onSnapshot(gameRef, (docSnapshot) => {
+      setGameState(docSnapshot.exists() ? (docSnapshot.data() as DailyWordleGameState) : null)
+      setLoading(false)
+    }, (error) => {
+      console.error('Error listening to the daily puzzle:', error)
+      setMessage('Error loading the daily puzzle. Please try again.')
+      setLoading(false)
+    })
+
+    return () => unsubscribe()
+  }, [currentUser, date])
+
+  const handleSubmitGuess = async (guess: string): Promise<boolean> => {
+    try {
+      const { isCorrect } = await submitDailyWordleGuess(date, guess)
+      setMessage(isCorrect ? 'You got it!' : '')
+      return true
+    } catch (error) {
+      // Rejections from the server (already played, new day) carry a message meant for the player
+      const isRejected = error instanceof FirebaseError && error.code !== 'functions/internal'
+      setMessage(isRejected ? error.message : 'Error submitting your guess. Please try again.')
+      return false
+    }
+  }
+
+  if (!currentUser) return null
+
+  if (loading) {
+    return (
+      <div className="flex items-center justify-center min-h-[200px]">
+        <div className="animate-spin rounded-full h-12 w-12 border-t-2 border-b-2 border-primary"></div>
+      </div>
+    )
+  }
+
+  const guesses = gameState?.guesses || []
+  const feedback = gameState?.feedback || []
+  const isCompleted = gameState?.status === 'completed'
+
+  return (
+    <div className="space-y-6">
+      <div className="card">
+        <div className="flex items-center justify-between mb-1">
+          <div className="flex items-center space-x-2">
+            <FaCalendarDay className="text-primary" />
+            <h1 className="text-xl font-semibold">Daily Toilet Wordle</h1>
+          </div>
+          <WordleColorBlindToggle enabled={colorBlind} onChange={setColorBlind} />
+        </div>
+        <p className="text-sm text-gray-500 dark:text-gray-400 mb-4">
+          Everyone gets the same word today ({date}). No friends required.
+        </p>
+
+        <WordleGuessRows
+          guesses={guesses}
+          feedback={feedback}
+          totalRows={gameState?.maxGuesses || DEFAULT_MAX_GUESSES}
+          colorBlind={colorBlind}
+          announce
+        />
+
+        {message && (
+          <p role="status" className="text-sm text-accent text-center my-2">{message}</p>
+        )}
+
+        {isCompleted ? (
+          <div className="text-center mt-4">
+            <h2 className="text-lg font-bold mb-1">
+              {gameState.solved ? `Solved in ${guesses.length}!` : 'Out of guesses!'}
+            </h2>
+            <p>The word was: <span className="font-bold">{gameState.word}</span></p>
+            <p className="text-sm text-gray-500 dark:text-gray-400 mt-1">Come back tomorrow for a new word.</p>
+          </div>
+        ) : (
+          <WordleGuessEntry
+            keyStates={getKeyboardStates(toScoredGuesses(guesses, feedback))}
+            disabled={false}
+            colorBlind={colorBlind}
+            onMessage={setMessage}
+            onSubmit={handleSubmitGuess}
+          />
+        )}
+      </div>
+
+      {isCompleted && (
+        <div className="card">
+          <h2 className="text-xl font-semibold mb-4">Your Daily Stats</h2>
+          <DailyWordleStatsCard
+            userId={currentUser.uid}
+            highlightGuessCount={gameState.solved ? guesses.length : undefined}
+          />
+          <p className="text-sm text-center mt-4">
+            <Link to="/profile" className="text-primary hover:underline">See all your stats</Link>
+          </p>
+        </div>
+      )}
+    </div>
+  )
+}
+
+export default DailyWordle
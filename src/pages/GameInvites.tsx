@@ -0,0 +1,167 @@
+import { useState } from 'react'
+import { FirebaseError } from 'firebase/app'
+import { FaEnvelope } from 'react-icons/fa'
+import { useAuth } from '../contexts/AuthContext'
+import { useGame } from '../contexts/GameContext'
+import { getGame } from '../games/registry'
+import { GameInviteData } from '../models/Game'
+import {
+  isInviteExpired,
+  declineGameInvite,
+  closeGameInvite,
+  clearGameInvites
+} from '../services/gameService'
+
+const STATUS_LABELS: { [status: string]: { label: string; className: string } } = {
+  pending: { label: 'Pending', className: 'text-accent' },
+  accepted: { label: 'Accepted', className: 'text-green-500' },
+  rejected: { label: 'Declined', className: 'text-red-500' },
+  cancelled: { label: 'Cancelled', className: 'text-gray-500 dark:text-gray-400' },
+  expired: { label: 'Expired', className: 'text-amber-500' }
+}
+
+// How long ago something happened, e.g. "5m ago"
+const formatAge = (timestamp: number, now: number = Date.now()): string => {
+  const minutes = Math.floor((now - timestamp) / 60000)
+  if (minutes < 1) return 'just now'
+  if (minutes < 60) return `${minutes}m ago`
+  if (minutes < 24 * 60) return `${Math.floor(minutes / 60)}h ago`
+  return `${Math.floor(minutes / (24 * 60))}d ago`
+}
+
+// An invite still waiting for an answer it can get
+const isOpen = (invite: GameInviteData) => invite.status === 'pending' && !isInviteExpired(invite)
+
+// Accepted invites go away with their game, so only answered ones can be cleared
+const isClearable = (invite: GameInviteData) => invite.status !== 'accepted' && !isOpen(invite)
+
+// Every invite the user has received or sent, newest first, until they clear it
+const GameInvites = () => {
+  const { currentUser } = useAuth()
+  const { receivedInvites, outgoingInvites, acceptInvite } = useGame()
+  const [busyInviteId, setBusyInviteId] = useState<string | null>(null)
+  const [error, setError] = useState('')
+
+  if (!currentUser) return null
+
+  const runAction = async (inviteId: string, action: () => Promise<void>, failure: string) => {
+    setBusyInviteId(inviteId)
+    setError('')
+
+    try {
+      await action()
+    } catch (err) {
+      // Rooms can fill up or start before the invite is answered
+      const isRejected = err instanceof FirebaseError && err.code.startsWith('functions/') &&
+        err.code !== 'functions/internal'
+      setError(isRejected ? err.message : failure)
+    } finally {
+      setBusyInviteId(null)
+    }
+  }
+
+  const handleClear = (invites: GameInviteData[]) =>
+    runAction('clear', () => clearGameInvites(invites.filter(isClearable).map(invite => invite.id)),
+      'Failed to clear invites')
+
+  const renderList = (title: string, invites: GameInviteData[], received: boolean) => {
+    const sorted = [...invites].sort((a, b) => b.createdAt - a.createdAt)
+    const clearableCount = sorted.filter(isClearable).length
+
+    return (
+      <section className="mb-6">
+        <div className="flex items-center justify-between mb-2">
+          <h2 className="font-semibold">{title}</h2>
+          {clearableCount > 0 && (
+            <button
+              onClick={() => handleClear(sorted)}
+              disabled={busyInviteId !== null}
+              className="text-sm text-gray-500 hover:text-red-500"
+            >
+              Clear {clearableCount} answered
+            </button>
+          )}
+        </div>
+
+        {sorted.length === 0 ? (
+          <p className="text-sm text-gray-500 dark:text-gray-400">Nothing here.</p>
+        ) : (
+          <ul className="divide-y divide-gray-200 dark:divide-gray-700">
+            {sorted.map(invite => {
+              const definition = getGame(invite.gameType)
+              const status = STATUS_LABELS[isInviteExpired(invite) ? 'expired' : invite.status]
+              const isBusy = busyInviteId === invite.id
+
+              return (
+                <li key={invite.id} className="py-3 flex items-center justify-between">
+                  <div>
+                    <p className="font-medium">
+                      {definition?.icon} {definition?.name}
+                      <span className="font-normal">
+                        {received ? ` from ${invite.senderName}` : ` to ${invite.receiverName || 'a friend'}`}
+                      </span>
+                    </p>
+                    <p className="text-xs text-gray-500 dark:text-gray-400">
+                      <span className={status.className}>{status.label}</span>
+                      {invite.roomSize && ` · room of ${invite.roomSize}`}
+                      {invite.rematchOf && ' · rematch'}
+                      {' · '}{formatAge(invite.createdAt)}
+                    </p>
+                  </div>
+
+                  {isOpen(invite) && received && (
+                    <div className="flex space-x-2">
+                      <button
+                        onClick={() => runAction(invite.id, () => declineGameInvite(invite.id), 'Failed to decline the invite')}
+                        disabled={isBusy}
+                        className="px-3 py-1 bg-gray-200 dark:bg-slate-700 rounded text-sm"
+                      >
+                        Decline
+                      </button>
+                      <button
+                        onClick={() => runAction(invite.id, () => acceptInvite(invite), 'Failed to accept the invite')}
+                        disabled={isBusy}
+                        className="px-3 py-1 bg-primary text-white rounded text-sm"
+                      >
+                        Accept
+                      </button>
+                    </div>
+                  )}
+
+                  {isOpen(invite) && !received && (
+                    <button
+                      onClick={() => runAction(invite.id, () => closeGameInvite(invite.id, 'cancelled'), 'Failed to cancel the invite')}
+                      disabled={isBusy}
+                      className="px-3 py-1 text-sm text-red-500 hover:text-red-700"
+                    >
+                      Cancel
+                    </button>
+                  )}
+                </li>
+              )
+            })}
+          </ul>
+        )}
+      </section>
+    )
+  }
+
+  return (
+    <div className="card">
+      <div className="flex items-center space-x-2 mb-1">
+        <FaEnvelope className="text-primary" />
+        <h1 className="text-xl font-semibold">Game Invites</h1>
+      </div>
+      <p className="text-xs text-gray-500 dark:text-gray-400 mb-4">
+        Clearing an invite removes it for your friend too. Accepted invites move to My Games.
+      </p>
+
+      {error && <p className="text-red-500 text-sm mb-4">{error}</p>}
+
+      {renderList('Received', receivedInvites, true)}
+      {renderList('Sent', outgoingInvites, false)}
+    </div>
+  )
+}
+
+export default GameInvites
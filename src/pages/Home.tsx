@@ -1,28 +1,27 @@
 import { useAuth } from '../contexts/AuthContext'
 import { useGame } from '../contexts/GameContext'
-import { FaToilet, FaGamepad } from 'react-icons/fa'
-
-// Mini-games
-const games = [
-  { id: 'tictactoe', name: 'Tic Tac Toe', icon: '⭕❌' },
-  { id: 'rockpaper', name: 'Rock Paper Scissors', icon: '✂️🪨📄' },
-  { id: 'wordle', name: 'Toilet Wordle', icon: '🔤' },
-  { id: 'hangman', name: 'Hangman', icon: '👨‍🦯' },
-]
+import { Link } from 'react-router-dom'
+import { FaToilet, FaGamepad, FaCalendarDay, FaRobot } from 'react-icons/fa'
+import { GAME_LIST, getGame } from '../games/registry'
 
 const Home = () => {
   const { userData } = useAuth()
-  const { selectedGame, setSelectedGame } = useGame()
+  const { selectedGame, setSelectedGame, selectedGameOptions, setSelectedGameOptions } = useGame()
 
   const handleGameSelect = (gameId: string) => {
     // Toggle selection - if already selected, deselect it
     if (selectedGame === gameId) {
       setSelectedGame(null);
+      setSelectedGameOptions({});
     } else {
       setSelectedGame(gameId);
+      setSelectedGameOptions(getGame(gameId)?.defaultOptions || {});
     }
   };
 
+  const selectedGameDefinition = getGame(selectedGame)
+  const OptionsPicker = selectedGameDefinition?.optionsPicker
+
   return (
     <div className="space-y-6">
       <div className="card">
@@ -58,7 +57,7 @@ const Home = () => {
         </div>
         
         <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
-          {games.map(game => (
+          {GAME_LIST.map(game => (
             <button
               key={game.id}
               onClick={() => handleGameSelect(game.id)}
@@ -80,21 +79,41 @@ const Home = () => {
           ))}
         </div>
         
+        <Link
+          to="/daily-wordle"
+          className="mt-4 p-3 flex items-center justify-center space-x-2 rounded-lg border-2 border-gray-200 dark:border-gray-700 hover:border-primary/50"
+        >
+          <FaCalendarDay className="text-primary" />
+          <span className="font-medium">Daily Toilet Wordle</span>
+          <span className="text-xs text-gray-500">Solo, one word a day</span>
+        </Link>
+
+        <Link
+          to="/practice-wordle"
+          className="mt-2 p-3 flex items-center justify-center space-x-2 rounded-lg border-2 border-gray-200 dark:border-gray-700 hover:border-primary/50"
+        >
+          <FaRobot className="text-primary" />
+          <span className="font-medium">Practice Toilet Wordle</span>
+          <span className="text-xs text-gray-500">Against a bot, any time</span>
+        </Link>
+        
         {!userData?.isShitting && (
           <div className="mt-4 p-3 bg-gray-100 dark:bg-slate-700 rounded text-sm text-center">
             Toggle your status to "Shitting" to play mini-games with friends!
           </div>
         )}
 
-        {userData?.isShitting && selectedGame === 'wordle' && (
+        {userData?.isShitting && selectedGameDefinition && (
           <div className="mt-4 p-3 bg-primary/10 rounded text-sm">
-            <p className="text-center font-medium mb-2">Toilet Wordle Selected!</p>
-            <p>To play Toilet Wordle:</p>
+            <p className="text-center font-medium mb-2">{selectedGameDefinition.name} Selected!</p>
+            {OptionsPicker && (
+              <OptionsPicker options={selectedGameOptions} onChange={setSelectedGameOptions} />
+            )}
+            <p>To play {selectedGameDefinition.name}:</p>
             <ol className="list-decimal list-inside mt-2 space-y-1">
-              <li>Check which friends are currently shitting in the sidebar</li>
-              <li>Click the game icon next to their name to send an invite</li>
-              <li>Wait for them to accept your invitation</li>
-              <li>Take turns guessing the 5-letter word</li>
+              {selectedGameDefinition.instructions.map(step => (
+                <li key={step}>{step}</li>
+              ))}
             </ol>
           </div>
         )}
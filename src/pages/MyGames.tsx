@@ -0,0 +1,124 @@
+import { useState, useEffect } from 'react'
+import { doc, getDoc } from 'firebase/firestore'
+import { FaGamepad } from 'react-icons/fa'
+import { useAuth } from '../contexts/AuthContext'
+import { useGame } from '../contexts/GameContext'
+import { firestore } from '../firebase/config'
+import { getGame } from '../games/registry'
+import { UserGameEntry } from '../models/Game'
+import { getUnfinishedUserGames, markUserGameFinished } from '../services/userGamesService'
+
+interface UnfinishedGame {
+  entry: UserGameEntry
+  opponentName: string
+  status: string
+  isMyTurn: boolean
+}
+
+// Every game the user joined that isn't over yet, so any of them can be reopened
+const MyGames = () => {
+  const { currentUser } = useAuth()
+  const { activeGameId, resumeGame } = useGame()
+  const [games, setGames] = useState<UnfinishedGame[]>([])
+  const [loading, setLoading] = useState(true)
+  const [error, setError] = useState('')
+
+  // Look up each indexed game's current state, and drop the ones that are over.
+  // Refetched whenever a game is closed, so its latest turn shows here.
+  useEffect(() => {
+    if (!currentUser || activeGameId) return
+
+    const fetchGames = async () => {
+      try {
+        const entries = await getUnfinishedUserGames(currentUser.uid)
+
+        const unfinished = await Promise.all(entries.map(async (entry): Promise<UnfinishedGame | null> => {
+          const game = getGame(entry.gameType)
+          if (!game) return null
+
+          const gameDoc = await getDoc(doc(firestore, game.collection, entry.gameId))
+          const state = gameDoc.data()
+
+          if (!state || state.status === 'completed') {
+            markUserGameFinished(currentUser.uid, entry.gameId).catch(() => {})
+            return null
+          }
+
+          const opponentDoc = entry.opponentId === currentUser.uid
+            ? null
+            : await getDoc(doc(firestore, 'users', entry.opponentId))
+
+          return {
+            entry,
+            opponentName: opponentDoc?.exists() ? opponentDoc.data().displayName || 'Unknown' : 'your room',
+            status: state.status,
+            isMyTurn: state.currentPlayer === currentUser.uid
+          }
+        }))
+
+        setGames(unfinished.filter((game): game is UnfinishedGame => game !== null))
+      } catch (err) {
+        setError('Failed to load your games')
+      } finally {
+        setLoading(false)
+      }
+    }
+
+    fetchGames()
+  }, [currentUser, activeGameId])
+
+  if (!currentUser) return null
+
+  const describeStatus = ({ status, isMyTurn }: UnfinishedGame) => {
+    if (status === 'waiting') return 'Waiting to start'
+    return isMyTurn ? 'Your turn' : 'In progress'
+  }
+
+  return (
+    <div className="card">
+      <div className="flex items-center space-x-2 mb-4">
+        <FaGamepad className="text-primary" />
+        <h1 className="text-xl font-semibold">My Games</h1>
+      </div>
+
+      {loading ? (
+        <div className="animate-spin rounded-full h-8 w-8 border-t-2 border-b-2 border-primary mx-auto"></div>
+      ) : error ? (
+        <p className="text-red-500 text-sm">{error}</p>
+      ) : games.length === 0 ? (
+        <p className="text-sm text-gray-500 dark:text-gray-400">
+          No unfinished games. Challenge a shitting friend from the Home page!
+        </p>
+      ) : (
+        <ul className="divide-y divide-gray-200 dark:divide-gray-700">
+          {games.map(game => {
+            const definition = getGame(game.entry.gameType)
+
+            return (
+              <li key={game.entry.gameId} className="py-3 flex items-center justify-between">
+                <div>
+                  <p className="font-medium">
+                    {definition?.icon} {definition?.name} <span className="font-normal">vs {game.opponentName}</span>
+                  </p>
+                  <p className={`text-xs ${game.isMyTurn ? 'text-accent font-semibold' : 'text-gray-500 dark:text-gray-400'}`}>
+                    {describeStatus(game)} · {game.entry.lastOpenedAt
+                      ? `last opened ${new Date(game.entry.lastOpenedAt).toLocaleString()}`
+                      : 'not opened yet'}
+                  </p>
+                </div>
+                <button
+                  onClick={() => resumeGame(game.entry)}
+                  className="px-3 py-1 bg-primary text-white rounded text-sm"
+                >
+                  Resume
+                </button>
+              </li>
+            )
+          })}
+        </ul>
+      )}
+    </div>
+  )
+}
+
+export default MyGames
@@ -0,0 +1,194 @@
+import { useState, useEffect } from 'react'
+import { FaRobot } from 'react-icons/fa'
+import { useAuth } from '../contexts/AuthContext'
+import WordleGuessRows from '../components/WordleGuessRows'
+import WordleGuessEntry from '../components/WordleGuessEntry'
+import WordleColorBlindToggle from '../components/WordleColorBlindToggle'
+import {
+  DEFAULT_MAX_GUESSES,
+  WordleGameState,
+  createWordleGame,
+  getGuessCount,
+  getKeyboardStates,
+  toScoredGuesses,
+  loadAnswers,
+  loadColorBlindMode
+} from '../games/wordle'
+import {
+  BOT_PLAYER_ID,
+  BOT_LEVELS,
+  WordleBotLevel,
+  pickBotGuess,
+  applyPracticeGuess
+} from '../games/wordleBot'
+
+// How long the bot "thinks" before each guess, so its moves can be followed
+const BOT_THINK_MS = 1200
+
+// Head-to-head Wordle against a bot, played entirely in the browser so it works
+// whether or not anyone else is online. Nothing is saved.
+const PracticeWordle = () => {
+  const { currentUser } = useAuth()
+  const [level, setLevel] = useState<WordleBotLevel>('medium')
+  const [gameState, setGameState] = useState<WordleGameState | null>(null)
+  const [answers, setAnswers] = useState<string[]>([])
+  // Picked when the game starts, and only put on the game once it's over
+  const [answer, setAnswer] = useState('')
+  const [message, setMessage] = useState('')
+  const [starting, setStarting] = useState(false)
+  const [colorBlind, setColorBlind] = useState(loadColorBlindMode)
+
+  // The bot takes its turn after a short pause
+  useEffect(() => {
+    if (!gameState || gameState.status !== 'active' || gameState.currentPlayer !== BOT_PLAYER_ID) return
+
+    const timer = setTimeout(() => {
+      setGameState(prev => prev && applyPracticeGuess(prev, BOT_PLAYER_ID, pickBotGuess(level, answers, prev), answer))
+    }, BOT_THINK_MS)
+
+    return () => clearTimeout(timer)
+  }, [gameState, level, answers, answer])
+
+  if (!currentUser) return null
+
+  const handleStart = async () => {
+    setStarting(true)
+    setMessage('')
+
+    try {
+      const answerList = await loadAnswers()
+      setAnswers(answerList)
+      setAnswer(answerList[Math.floor(Math.random() * answerList.length)])
+      setGameState(createWordleGame({
+        currentUserId: currentUser.uid,
+        opponentId: BOT_PLAYER_ID,
+        options: { maxGuesses: DEFAULT_MAX_GUESSES }
+      }))
+    } catch (error) {
+      console.error('Error starting a practice game:', error)
+      setMessage('Error starting the game. Please try again.')
+    } finally {
+      setStarting(false)
+    }
+  }
+
+  const handleSubmitGuess = async (guess: string): Promise<boolean> => {
+    if (!gameState || gameState.currentPlayer !== currentUser.uid) return false
+
+    setMessage('')
+    setGameState(applyPracticeGuess(gameState, currentUser.uid, guess, answer))
+    return true
+  }
+
+  const describeTurn = (state: WordleGameState) => {
+    if (state.status === 'completed') {
+      if (state.outcome === 'draw') return 'Nobody found the word. It\'s a draw!'
+      return state.winner === currentUser.uid ? 'You win!' : 'The bot found it first.'
+    }
+    return state.currentPlayer === currentUser.uid ? 'Your turn' : 'The bot is thinking...'
+  }
+
+  const levelPicker = (
+    <div className="flex justify-center space-x-2 mb-2">
+      {BOT_LEVELS.map(choice => (
+        <button
+          key={choice.level}
+          onClick={() => setLevel(choice.level)}
+          title={choice.description}
+          aria-pressed={level === choice.level}
+          className={`px-3 py-1 rounded-full ${
+            level === choice.level ? 'bg-primary text-white' : 'bg-gray-200 dark:bg-slate-700'
+          }`}
+        >
+          {choice.label}
+        </button>
+      ))}
+    </div>
+  )
+
+  return (
+    <div className="card">
+      <div className="flex items-center justify-between mb-1">
+        <div className="flex items-center space-x-2">
+          <FaRobot className="text-primary" />
+          <h1 className="text-xl font-semibold">Practice Toilet Wordle</h1>
+        </div>
+        <WordleColorBlindToggle enabled={colorBlind} onChange={setColorBlind} />
+      </div>
+      <p className="text-sm text-gray-500 dark:text-gray-400 mb-4">
+        Take turns with a bot to find the word first. No friends, or shitting, required.
+      </p>
+
+      {message && (
+        <p role="status" className="text-sm text-accent text-center my-2">{message}</p>
+      )}
+
+      {!gameState ? (
+        <div className="text-center">
+          {levelPicker}
+          <p className="text-xs text-gray-500 dark:text-gray-400 mb-4">
+            {BOT_LEVELS.find(choice => choice.level === level)?.description}
+          </p>
+          <button
+            onClick={handleStart}
+            disabled={starting}
+            className="px-4 py-2 bg-primary text-white rounded"
+          >
+            {starting ? 'Starting...' : 'Start'}
+          </button>
+        </div>
+      ) : (
+        <>
+          <p className="text-sm text-center mb-4" aria-live="polite">{describeTurn(gameState)}</p>
+
+          <div className="grid gap-4 sm:grid-cols-2 mb-4">
+            {gameState.players.map(playerId => (
+              <div key={playerId}>
+                <h3 className="text-sm font-semibold mb-2 text-center">
+                  {playerId === BOT_PLAYER_ID ? `Bot (${level})` : 'You'}
+                  <span className="font-normal text-gray-500 dark:text-gray-400">
+                    {' '}({getGuessCount(gameState, playerId)}/{gameState.maxGuesses})
+                  </span>
+                </h3>
+                <WordleGuessRows
+                  guesses={gameState.guesses[playerId] || []}
+                  feedback={gameState.feedback[playerId] || []}
+                  totalRows={gameState.maxGuesses}
+                  colorBlind={colorBlind}
+                  announce
+                  animateLatest={playerId === BOT_PLAYER_ID}
+                />
+              </div>
+            ))}
+          </div>
+
+          {gameState.status === 'completed' ? (
+            <div className="text-center">
+              <p className="mb-4">The word was: <span className="font-bold">{gameState.word}</span></p>
+              {levelPicker}
+              <button
+                onClick={handleStart}
+                disabled={starting}
+                className="mt-2 px-4 py-2 bg-primary text-white rounded"
+              >
+                Play Again
+              </button>
+            </div>
+          ) : (
+            <WordleGuessEntry
+              keyStates={getKeyboardStates(gameState.players.flatMap(playerId =>
+                toScoredGuesses(gameState.guesses[playerId] || [], gameState.feedback[playerId] || [])
+              ))}
+              disabled={gameState.currentPlayer !== currentUser.uid}
+              colorBlind={colorBlind}
+              onMessage={setMessage}
+              onSubmit={handleSubmitGuess}
+            />
+          )}
+        </>
+      )}
+    </div>
+  )
+}
+
+export default PracticeWordle
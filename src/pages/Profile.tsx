@@ -1,8 +1,11 @@
 import { updateProfile } from 'firebase/auth';
 import { doc, updateDoc } from 'firebase/firestore';
 import { useState } from 'react';
+import { Link } from 'react-router-dom';
 import { FaUser, FaEdit, FaCheck } from 'react-icons/fa';
 
+import DailyWordleStatsCard from '../components/DailyWordleStatsCard';
+import GameHistory from '../components/GameHistory';
 import { useAuth } from '../contexts/AuthContext';
 import { firestore } from '../firebase/config';
 
@@ -156,6 +159,26 @@ const Profile = () => {
           </div>
         </div>
       </div>
+
+      {currentUser && (
+        <div className="card">
+          <div className="flex items-center justify-between mb-4">
+            <h2 className="text-xl font-semibold">Daily Toilet Wordle</h2>
+            <Link to="/daily-wordle" className="text-sm text-primary hover:underline">
+              Play today's puzzle
+            </Link>
+          </div>
+
+          <DailyWordleStatsCard userId={currentUser.uid} />
+        </div>
+      )}
+
+      {currentUser && (
+        <div className="card">
+          <h2 className="text-xl font-semibold mb-4">Game History</h2>
+          <GameHistory userId={currentUser.uid} />
+        </div>
+      )}
     </div>
   );
 };
@@ -1,11 +1,12 @@
 import { useState, useEffect, useCallback, useRef } from 'react';
 import { FaHeart, FaRegHeart, FaTrash, FaPlus } from 'react-icons/fa';
 import { QueryDocumentSnapshot } from 'firebase/firestore';
+import { Link, useLocation, useNavigate } from 'react-router-dom';
 
 import { useAuth } from '../contexts/AuthContext';
-import { Tweet } from '../models/Tweet';
+import { Tweet, TweetDraft } from '../models/Tweet';
 import { getCachedTimeline } from '../utils/tweetCache';
-import { getTimelineTweets, createTweet, toggleLikeTweet, deleteTweet } from '../services/tweetService';
+import { getTimelineTweets, createTweet, toggleLikeTweet, deleteTweet, isSharedGameLink } from '../services/tweetService';
 import { doc, getDoc } from 'firebase/firestore';
 import { firestore } from '../firebase/config';
 
@@ -63,10 +64,15 @@ const formatTweetDate = (createdAt: any): string => {
 
 const Tweets = () => {
   const { currentUser, userData } = useAuth();
+  const location = useLocation();
+  const navigate = useNavigate();
+  // Something shared from elsewhere in the app, e.g. a finished game
+  const draft = location.state as TweetDraft | null;
   const [tweets, setTweets] = useState<Tweet[]>([]);
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
   const [newTweetContent, setNewTweetContent] = useState('');
+  const [newTweetLink, setNewTweetLink] = useState('');
   const [posting, setPosting] = useState(false);
   const [friends, setFriends] = useState<string[]>([]);
   const [lastDoc, setLastDoc] = useState<QueryDocumentSnapshot | undefined>();
@@ -76,6 +82,13 @@ const Tweets = () => {
   const observerTarget = useRef<HTMLDivElement>(null);
   const [lastAutoRefresh, setLastAutoRefresh] = useState(0);
 
+  // Prefill the new tweet with whatever was shared, even if this page was already open
+  useEffect(() => {
+    if (!draft) return;
+    setNewTweetContent(draft.content);
+    setNewTweetLink(draft.link && isSharedGameLink(draft.link) ? draft.link : '');
+  }, [draft]);
+
   // Load friends list
   useEffect(() => {
     const loadFriends = async () => {
@@ -213,10 +226,14 @@ const Tweets = () => {
         authorId: currentUser.uid,
         authorName: userData?.displayName || 'Anonymous',
         content: newTweetContent.trim(),
-        isPublic: false
+        isPublic: false,
+        ...(newTweetLink ? { link: newTweetLink } : {})
       });
       
       setNewTweetContent('');
+      setNewTweetLink('');
+      // Drop the draft so a reload doesn't prefill it again
+      navigate(location.pathname, { replace: true, state: null });
       
       // Refresh the timeline after posting a new tweet
       loadTweets(true);
@@ -295,10 +312,19 @@ const Tweets = () => {
             />
             
             <div className="flex items-center justify-between">
-              <div className="flex items-center">
+              <div className="flex items-center space-x-3">
                 <div className="text-sm text-gray-500">
                   {newTweetContent.length}/280
                 </div>
+                {newTweetLink && (
+                  <button
+                    type="button"
+                    onClick={() => setNewTweetLink('')}
+                    className="text-sm text-gray-500 hover:text-red-500"
+                  >
+                    Links to {newTweetLink} ✕
+                  </button>
+                )}
               </div>
               
               <button
@@ -342,7 +368,13 @@ const Tweets = () => {
                   </div>
                 </div>
                 
-                <div className="my-3 text-gray-900">{tweet.content}</div>
+                <div className="my-3 text-gray-900 whitespace-pre-line">{tweet.content}</div>
+                
+                {tweet.link && isSharedGameLink(tweet.link) && (
+                  <Link to={tweet.link} className="block mb-3 text-sm text-primary hover:underline">
+                    See the game
+                  </Link>
+                )}
                 
                 <div className="flex items-center justify-between mt-2">
                   <div className="flex items-center">
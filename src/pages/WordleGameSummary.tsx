@@ -0,0 +1,111 @@
+import { useState, useEffect } from 'react'
+import { useParams, Link } from 'react-router-dom'
+import { doc, getDoc } from 'firebase/firestore'
+import { useAuth } from '../contexts/AuthContext'
+import { firestore } from '../firebase/config'
+import WordleGuessRows from '../components/WordleGuessRows'
+import {
+  WORDLE_COLLECTION,
+  WordleGameState,
+  getGuessCount,
+  getWordleStandings,
+  loadColorBlindMode
+} from '../games/wordle'
+
+// Who played a finished game and how each of them did, linked from shared tweets.
+// Only the colors show, so the word isn't spoiled for anyone who follows the link.
+const WordleGameSummary = () => {
+  const { gameId } = useParams()
+  const { currentUser } = useAuth()
+  const [gameState, setGameState] = useState<WordleGameState | null>(null)
+  const [playerNames, setPlayerNames] = useState<{ [userId: string]: string }>({})
+  const [loading, setLoading] = useState(true)
+  const [error, setError] = useState('')
+  const [colorBlind] = useState(loadColorBlindMode)
+
+  useEffect(() => {
+    if (!currentUser || !gameId) return
+
+    const fetchGame = async () => {
+      try {
+        const gameDoc = await getDoc(doc(firestore, WORDLE_COLLECTION, gameId))
+        const state = gameDoc.exists() ? (gameDoc.data() as WordleGameState) : null
+
+        if (state) {
+          const names: { [userId: string]: string } = {}
+          await Promise.all(state.players.map(async (playerId) => {
+            const playerDoc = await getDoc(doc(firestore, 'users', playerId))
+            names[playerId] = playerDoc.exists() ? playerDoc.data().displayName || 'Player' : 'Player'
+          }))
+          setPlayerNames(names)
+        }
+
+        setGameState(state)
+      } catch (err) {
+        setError('Failed to load this game')
+      } finally {
+        setLoading(false)
+      }
+    }
+
+    fetchGame()
+  }, [currentUser, gameId])
+
+  if (!currentUser) return null
+
+  const nameOf = (playerId: string | null) => (playerId && playerNames[playerId]) || 'Player'
+
+  const describeOutcome = (state: WordleGameState) => {
+    if (state.outcome === 'draw') return 'Nobody found the word.'
+    if (state.outcome === 'stumped') return `Nobody found ${nameOf(state.winner)}'s word.`
+    if (state.outcome === 'resigned' || state.outcome === 'forfeit') return `${nameOf(state.winner)} was the last one left.`
+    return `${nameOf(state.winner)} found the word.`
+  }
+
+  return (
+    <div className="card">
+      <h1 className="text-xl font-semibold mb-4">🔤 Toilet Wordle</h1>
+
+      {loading ? (
+        <div className="animate-spin rounded-full h-8 w-8 border-t-2 border-b-2 border-primary mx-auto"></div>
+      ) : error ? (
+        <p className="text-red-500 text-sm">{error}</p>
+      ) : !gameState ? (
+        <p className="text-sm">This game no longer exists.</p>
+      ) : gameState.status !== 'completed' ? (
+        <p className="text-sm">This game isn't over yet.</p>
+      ) : (
+        <>
+          <div className="mb-4 text-center">
+            <p className="text-sm mb-1 font-semibold">
+              {gameState.players.map(nameOf).join(' vs ')}
+            </p>
+            <p className="text-sm">{describeOutcome(gameState)}</p>
+            {gameState.moves?.length > 0 && (
+              <Link to={`/wordle/${gameId}/replay`} className="text-sm text-primary hover:underline">
+                Watch the replay
+              </Link>
+            )}
+          </div>
+
+          <div className="grid gap-4 sm:grid-cols-2">
+            {getWordleStandings(gameState).filter(playerId => playerId !== gameState.wordSetter).map(playerId => (
+              <div key={playerId}>
+                <h3 className="text-sm font-semibold mb-2 text-center">
+                  {nameOf(playerId)}
+                  <span className="font-normal text-gray-500 dark:text-gray-400">
+                    {' '}({getGuessCount(gameState, playerId)}/{gameState.maxGuesses})
+                    {gameState.leftPlayers.includes(playerId) && ' (left)'}
+                  </span>
+                </h3>
+                <WordleGuessRows guesses={[]} feedback={gameState.feedback[playerId] || []} colorBlind={colorBlind} />
+              </div>
+            ))}
+          </div>
+        </>
+      )}
+    </div>
+  )
+}
+
+export default WordleGameSummary
@@ -0,0 +1,203 @@
+import { useState, useEffect } from 'react'
+import { useParams, Link } from 'react-router-dom'
+import { doc, getDoc } from 'firebase/firestore'
+import { FaStepBackward, FaBackward, FaPlay, FaPause, FaForward, FaStepForward } from 'react-icons/fa'
+import { useAuth } from '../contexts/AuthContext'
+import { firestore } from '../firebase/config'
+import WordleGuessRows from '../components/WordleGuessRows'
+import {
+  WORDLE_COLLECTION,
+  WordleGameState,
+  getGuessers,
+  getGuessCountsAtMove,
+  loadColorBlindMode
+} from '../games/wordle'
+
+// How long each guess stays on screen while the replay plays
+const REPLAY_STEP_MS = 1500
+
+// A duration as minutes and seconds, e.g. "1:05"
+const formatElapsed = (ms: number): string => {
+  const seconds = Math.max(Math.round(ms / 1000), 0)
+  return `${Math.floor(seconds / 60)}:${String(seconds % 60).padStart(2, '0')}`
+}
+
+// Steps through a finished game one guess at a time, in the order the guesses were made.
+// Like the summary, anyone who isn't a player only sees the colors.
+const WordleReplay = () => {
+  const { gameId } = useParams()
+  const { currentUser } = useAuth()
+  const [gameState, setGameState] = useState<WordleGameState | null>(null)
+  const [playerNames, setPlayerNames] = useState<{ [userId: string]: string }>({})
+  const [loading, setLoading] = useState(true)
+  const [error, setError] = useState('')
+  // How many moves have been played so far
+  const [step, setStep] = useState(0)
+  const [playing, setPlaying] = useState(false)
+  const [colorBlind] = useState(loadColorBlindMode)
+
+  useEffect(() => {
+    if (!currentUser || !gameId) return
+
+    const fetchGame = async () => {
+      try {
+        const gameDoc = await getDoc(doc(firestore, WORDLE_COLLECTION, gameId))
+        const state = gameDoc.exists() ? (gameDoc.data() as WordleGameState) : null
+
+        if (state) {
+          const names: { [userId: string]: string } = {}
+          await Promise.all(state.players.map(async (playerId) => {
+            const playerDoc = await getDoc(doc(firestore, 'users', playerId))
+            names[playerId] = playerDoc.exists() ? playerDoc.data().displayName || 'Player' : 'Player'
+          }))
+          setPlayerNames(names)
+        }
+
+        setGameState(state)
+      } catch (err) {
+        setError('Failed to load this game')
+      } finally {
+        setLoading(false)
+      }
+    }
+
+    fetchGame()
+  }, [currentUser, gameId])
+
+  const moves = gameState?.moves || []
+
+  // Advance while playing, and stop at the last guess
+  useEffect(() => {
+    if (!playing) return
+
+    if (step >= moves.length) {
+      setPlaying(false)
+      return
+    }
+
+    const timer = setTimeout(() => setStep(prev => prev + 1), REPLAY_STEP_MS)
+    return () => clearTimeout(timer)
+  }, [playing, step, moves.length])
+
+  if (!currentUser) return null
+
+  const nameOf = (playerId: string) => playerNames[playerId] || 'Player'
+
+  const goTo = (nextStep: number) => {
+    setPlaying(false)
+    setStep(Math.min(Math.max(nextStep, 0), moves.length))
+  }
+
+  const handlePlay = () => {
+    // Playing again from the end starts over
+    if (step >= moves.length) setStep(0)
+    setPlaying(prev => !prev)
+  }
+
+  const renderReplay = (state: WordleGameState) => {
+    const counts = getGuessCountsAtMove(state, step)
+    const currentMove = step > 0 ? moves[step - 1] : null
+    const isPlayer = state.players.includes(currentUser.uid)
+
+    return (
+      <>
+        <div className="text-center mb-4">
+          <p className="text-sm font-semibold mb-1">{state.players.map(nameOf).join(' vs ')}</p>
+          <p className="text-sm" aria-live="polite">
+            {currentMove
+              ? `Guess ${step} of ${moves.length}: ${nameOf(currentMove.playerId)} at ${formatElapsed(currentMove.time - state.createdAt)}`
+              : `${moves.length} guesses. Press play to watch them.`}
+          </p>
+        </div>
+
+        <div className="grid gap-4 sm:grid-cols-2 mb-4">
+          {getGuessers(state).map(playerId => (
+            <div key={playerId}>
+              <h3 className="text-sm font-semibold mb-2 text-center">
+                {nameOf(playerId)}
+                <span className="font-normal text-gray-500 dark:text-gray-400">
+                  {' '}({counts[playerId] || 0}/{state.maxGuesses})
+                </span>
+              </h3>
+              <WordleGuessRows
+                guesses={isPlayer ? (state.guesses[playerId] || []).slice(0, counts[playerId] || 0) : []}
+                feedback={(state.feedback[playerId] || []).slice(0, counts[playerId] || 0)}
+                totalRows={state.maxGuesses}
+                wordLength={state.wordLength}
+                colorBlind={colorBlind}
+                animateLatest={currentMove?.playerId === playerId}
+              />
+            </div>
+          ))}
+        </div>
+
+        <div className="flex justify-center space-x-2 mb-4">
+          <button onClick={() => goTo(0)} disabled={step === 0} aria-label="Back to the start" className="p-2 rounded bg-gray-200 dark:bg-slate-700 disabled:opacity-50">
+            <FaStepBackward />
+          </button>
+          <button onClick={() => goTo(step - 1)} disabled={step === 0} aria-label="Previous guess" className="p-2 rounded bg-gray-200 dark:bg-slate-700 disabled:opacity-50">
+            <FaBackward />
+          </button>
+          <button onClick={handlePlay} aria-label={playing ? 'Pause' : 'Play'} className="p-2 rounded bg-primary text-white">
+            {playing ? <FaPause /> : <FaPlay />}
+          </button>
+          <button onClick={() => goTo(step + 1)} disabled={step === moves.length} aria-label="Next guess" className="p-2 rounded bg-gray-200 dark:bg-slate-700 disabled:opacity-50">
+            <FaForward />
+          </button>
+          <button onClick={() => goTo(moves.length)} disabled={step === moves.length} aria-label="Skip to the end" className="p-2 rounded bg-gray-200 dark:bg-slate-700 disabled:opacity-50">
+            <FaStepForward />
+          </button>
+        </div>
+
+        {isPlayer && step === moves.length && (
+          <p className="text-sm text-center mb-4">The word was: <span className="font-bold">{state.word}</span></p>
+        )}
+
+        <ol className="divide-y divide-gray-200 dark:divide-gray-700 text-sm">
+          {moves.map((move, index) => (
+            <li key={index}>
+              <button
+                onClick={() => goTo(index + 1)}
+                aria-current={index + 1 === step ? 'step' : undefined}
+                className={`w-full py-1 px-2 flex justify-between text-left ${
+                  index + 1 === step ? 'bg-gray-100 dark:bg-slate-700 font-semibold' : ''
+                }`}
+              >
+                <span>{index + 1}. {nameOf(move.playerId)}</span>
+                <span className="text-gray-500 dark:text-gray-400">
+                  {formatElapsed(move.time - state.createdAt)}
+                  {' '}(+{formatElapsed(move.time - (index > 0 ? moves[index - 1].time : state.createdAt))})
+                </span>
+              </button>
+            </li>
+          ))}
+        </ol>
+      </>
+    )
+  }
+
+  return (
+    <div className="card">
+      <div className="flex items-center justify-between mb-4">
+        <h1 className="text-xl font-semibold">🔤 Toilet Wordle Replay</h1>
+        {gameId && <Link to={`/wordle/${gameId}`} className="text-sm text-primary hover:underline">Summary</Link>}
+      </div>
+
+      {loading ? (
+        <div className="animate-spin rounded-full h-8 w-8 border-t-2 border-b-2 border-primary mx-auto"></div>
+      ) : error ? (
+        <p className="text-red-500 text-sm">{error}</p>
+      ) : !gameState ? (
+        <p className="text-sm">This game no longer exists.</p>
+      ) : gameState.status !== 'completed' ? (
+        <p className="text-sm">This game isn't over yet, so there's nothing to replay.</p>
+      ) : moves.length === 0 ? (
+        <p className="text-sm">This game was played before replays were recorded.</p>
+      ) : (
+        renderReplay(gameState)
+      )}
+    </div>
+  )
+}
+
+export default WordleReplay
@@ -0,0 +1,61 @@
+import { doc, runTransaction, serverTimestamp, Timestamp } from 'firebase/firestore';
+import { firestore } from '../firebase/config';
+
+// Subcollections of a game document holding its chat and each player's last send time
+export const CHAT_COLLECTION = 'chat';
+export const CHAT_THROTTLE_COLLECTION = 'chatThrottle';
+
+// Minimum time between two messages from the same player; the Firestore rules enforce it too
+export const CHAT_COOLDOWN_MS = 3000;
+
+// Players can only send these, so the rules can check every message
+export const QUICK_MESSAGES = [
+  'Hurry up, my legs are going numb!',
+  'Nice guess!',
+  'Flushed it 🚽',
+  'Out of paper, send help',
+  'GG'
+] as const;
+
+export const CHAT_REACTIONS = ['💩', '😂', '🔥', '😱', '🧻'] as const;
+
+export interface ChatMessage {
+  id: string;
+  senderId: string;
+  kind: 'quick' | 'reaction';
+  text: string;
+  createdAt: Timestamp | null;
+}
+
+// Send a chat message, stamping the sender's throttle doc in the same write
+// so the rules can turn away messages sent too soon after the last one. Each send
+// moves the throttle's count on by one and the message is named after it, so one
+// write can only ever carry one message.
+export async function sendChatMessage(
+  collectionName: string,
+  gameId: string,
+  senderId: string,
+  kind: ChatMessage['kind'],
+  text: string
+): Promise<void> {
+  try {
+    const throttleRef = doc(firestore, collectionName, gameId, CHAT_THROTTLE_COLLECTION, senderId);
+
+    await runTransaction(firestore, async (transaction) => {
+      const throttleDoc = await transaction.get(throttleRef);
+      const seq = (throttleDoc.exists() ? throttleDoc.data().seq || 0 : 0) + 1;
+
+      transaction.set(doc(firestore, collectionName, gameId, CHAT_COLLECTION, `${senderId}_${seq}`), {
+        senderId,
+        kind,
+        text,
+        createdAt: serverTimestamp()
+      });
+
+      transaction.set(throttleRef, { lastSentAt: serverTimestamp(), seq });
+    });
+  } catch (error) {
+    console.error('Error sending chat message:', error);
+    throw error;
+  }
+}
@@ -0,0 +1,23 @@
+import { collection, query, where, getDocs } from 'firebase/firestore';
+import { firestore } from '../firebase/config';
+import { GAME_RESULTS_COLLECTION, GameResult } from '../games/results';
+
+// Get every finished game a user played in, most recent first
+export async function getGameResults(userId: string): Promise<GameResult[]> {
+  try {
+    const resultsQuery = query(
+      collection(firestore, GAME_RESULTS_COLLECTION),
+      where('players', 'array-contains', userId)
+    );
+
+    const snapshot = await getDocs(resultsQuery);
+
+    // Sorted here rather than in the query so it doesn't need a composite index
+    return snapshot.docs
+      .map(resultDoc => resultDoc.data() as GameResult)
+      .sort((a, b) => b.completedAt - a.completedAt);
+  } catch (error) {
+    console.error('Error fetching game results:', error);
+    throw error;
+  }
+}
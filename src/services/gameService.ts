@@ -0,0 +1,295 @@
+import {
+  collection,
+  query,
+  where,
+  getDocs,
+  doc,
+  deleteDoc,
+  updateDoc,
+  runTransaction,
+  writeBatch,
+  Transaction
+} from 'firebase/firestore';
+import { firestore } from '../firebase/config';
+import { GameInviteData } from '../models/Game';
+import { GameDefinition, GameOptions } from '../games/types';
+import { getUserGameRef } from './userGamesService';
+
+export const GAME_INVITES_COLLECTION = 'gameInvites';
+
+// How long a friend has to answer an invite
+export const GAME_INVITE_EXPIRY_MS = 2 * 60 * 1000;
+
+// How long the sender is shown next to a friend that an invite was declined, cancelled or expired
+export const INVITE_OUTCOME_DISPLAY_MS = 5000;
+
+// Check whether a pending invite has run out of time
+export function isInviteExpired(invite: GameInviteData, now: number = Date.now()): boolean {
+  return invite.status === 'expired' || (invite.status === 'pending' && now >= invite.expiresAt);
+}
+
+// Create a unique id for a new game of the given type
+export function createGameId(gameType: string): string {
+  return `${gameType}_${Date.now()}_${Math.random().toString(36).substring(2, 9)}`;
+}
+
+// The game an accepted invite starts; null for a room, whose game already exists
+type NewGame = Pick<GameDefinition, 'collection' | 'createInitialState'> | null;
+
+// Accept an invite as part of a transaction. The player accepting creates the game and
+// adds it to both players' game lists, so it's created exactly once and the sender
+// opens it from their list. Returns the invite as accepted.
+function startAcceptedGame(
+  transaction: Transaction,
+  invite: GameInviteData,
+  gameId: string,
+  game: NewGame
+): GameInviteData {
+  const now = Date.now();
+  const options = invite.options || {};
+  const entry = {
+    gameId,
+    gameType: invite.gameType,
+    options,
+    finished: false,
+    joinedAt: now,
+    ...(invite.rematchOf ? { rematchOf: invite.rematchOf } : {})
+  };
+
+  if (game) {
+    transaction.set(doc(firestore, game.collection, gameId), game.createInitialState({
+      currentUserId: invite.receiverId,
+      opponentId: invite.senderId,
+      inviteId: invite.id,
+      options
+    }));
+    transaction.set(getUserGameRef(invite.senderId, gameId), {
+      ...entry,
+      opponentId: invite.receiverId,
+      lastOpenedAt: null
+    });
+  }
+
+  transaction.set(getUserGameRef(invite.receiverId, gameId), { ...entry, opponentId: invite.senderId, lastOpenedAt: now });
+  transaction.update(doc(firestore, GAME_INVITES_COLLECTION, invite.id), { status: 'accepted', gameId, respondedAt: now });
+
+  return { ...invite, status: 'accepted', gameId, respondedAt: now };
+}
+
+// Delete the invite that started a game, whether the user sent or received it
+export async function deleteGameInvite(userId: string, gameId: string): Promise<void> {
+  try {
+    // Check if user is sender
+    const senderQuery = query(
+      collection(firestore, GAME_INVITES_COLLECTION),
+      where('senderId', '==', userId),
+      where('gameId', '==', gameId)
+    );
+
+    const senderResults = await getDocs(senderQuery);
+
+    if (!senderResults.empty) {
+      await deleteDoc(doc(firestore, GAME_INVITES_COLLECTION, senderResults.docs[0].id));
+      return;
+    }
+
+    // Check if user is receiver
+    const receiverQuery = query(
+      collection(firestore, GAME_INVITES_COLLECTION),
+      where('receiverId', '==', userId),
+      where('gameId', '==', gameId)
+    );
+
+    const receiverResults = await getDocs(receiverQuery);
+
+    if (!receiverResults.empty) {
+      await deleteDoc(doc(firestore, GAME_INVITES_COLLECTION, receiverResults.docs[0].id));
+    }
+  } catch (error) {
+    console.error('Error cleaning up game invite:', error);
+    throw error;
+  }
+}
+
+// Close a pending invite the sender no longer wants answered, either by choice or because it timed out
+export async function closeGameInvite(inviteId: string, status: 'cancelled' | 'expired'): Promise<void> {
+  try {
+    await updateDoc(doc(firestore, GAME_INVITES_COLLECTION, inviteId), {
+      status,
+      respondedAt: Date.now()
+    });
+  } catch (error) {
+    console.error(`Error marking game invite as ${status}:`, error);
+    throw error;
+  }
+}
+
+// Remove an invite whose game is over
+export async function removeGameInvite(inviteId: string): Promise<void> {
+  try {
+    await deleteDoc(doc(firestore, GAME_INVITES_COLLECTION, inviteId));
+  } catch (error) {
+    console.error('Error removing game invite:', error);
+    throw error;
+  }
+}
+
+// Clear answered invites out of the user's invite history
+export async function clearGameInvites(inviteIds: string[]): Promise<void> {
+  try {
+    const batch = writeBatch(firestore);
+    inviteIds.forEach(inviteId => batch.delete(doc(firestore, GAME_INVITES_COLLECTION, inviteId)));
+    await batch.commit();
+  } catch (error) {
+    console.error('Error clearing game invites:', error);
+    throw error;
+  }
+}
+
+// Accept an invite as its receiver, starting the game it's for
+export async function acceptGameInvite(invite: GameInviteData, gameId: string, game: NewGame): Promise<void> {
+  try {
+    await runTransaction(firestore, async (transaction) => {
+      startAcceptedGame(transaction, invite, gameId, game);
+    });
+  } catch (error) {
+    console.error('Error accepting invite:', error);
+    throw error;
+  }
+}
+
+// Turn down an invite as its receiver
+export async function declineGameInvite(inviteId: string): Promise<void> {
+  try {
+    await updateDoc(doc(firestore, GAME_INVITES_COLLECTION, inviteId), {
+      status: 'rejected',
+      respondedAt: Date.now()
+    });
+  } catch (error) {
+    console.error('Error rejecting invite:', error);
+    throw error;
+  }
+}
+
+interface RematchRequest {
+  previousGameId: string;
+  gameType: GameInviteData['gameType'];
+  // Used to create the new game if the opponent already asked
+  game: NonNullable<NewGame>;
+  options: GameOptions;
+  currentUserId: string;
+  currentUserName: string;
+  opponentId: string;
+  opponentName: string;
+}
+
+// Ask to play a finished game again. If the opponent already asked, their invite is
+// accepted instead and returned so the new game can start right away. Asking again
+// after a rematch was declined or expired sends the same invite out fresh.
+export async function requestRematch({
+  previousGameId,
+  gameType,
+  game,
+  options,
+  currentUserId,
+  currentUserName,
+  opponentId,
+  opponentName
+}: RematchRequest): Promise<GameInviteData | null> {
+  try {
+    // One rematch invite per player and game, so pressing twice or at the same time can't duplicate it
+    const myInviteRef = doc(firestore, GAME_INVITES_COLLECTION, `rematch_${previousGameId}_${currentUserId}`);
+    const opponentInviteRef = doc(firestore, GAME_INVITES_COLLECTION, `rematch_${previousGameId}_${opponentId}`);
+
+    return await runTransaction(firestore, async (transaction) => {
+      const opponentInviteDoc = await transaction.get(opponentInviteRef);
+      const myInviteDoc = await transaction.get(myInviteRef);
+
+      if (opponentInviteDoc.exists()) {
+        const opponentInvite = { id: opponentInviteDoc.id, ...opponentInviteDoc.data() } as GameInviteData;
+
+        if (opponentInvite.status === 'pending' && !isInviteExpired(opponentInvite)) {
+          return startAcceptedGame(transaction, opponentInvite, createGameId(gameType), game);
+        }
+      }
+
+      const myInvite = myInviteDoc.exists() ? ({ id: myInviteDoc.id, ...myInviteDoc.data() } as GameInviteData) : null;
+      const isOpen = myInvite?.status === 'accepted' || (myInvite?.status === 'pending' && !isInviteExpired(myInvite));
+
+      if (!isOpen) {
+        const createdAt = Date.now();
+
+        transaction.set(myInviteRef, {
+          senderId: currentUserId,
+          senderName: currentUserName,
+          receiverId: opponentId,
+          receiverName: opponentName,
+          gameType,
+          options,
+          rematchOf: previousGameId,
+          status: 'pending',
+          createdAt,
+          expiresAt: createdAt + GAME_INVITE_EXPIRY_MS
+        });
+      }
+
+      return null;
+    });
+  } catch (error) {
+    console.error('Error requesting rematch:', error);
+    throw error;
+  }
+}
+
+interface RoomRequest {
+  gameType: GameInviteData['gameType'];
+  collectionName: string;
+  // The room's game, waiting for the invited friends to join
+  initialState: object;
+  options: GameOptions;
+  hostId: string;
+  hostName: string;
+  friends: { uid: string; displayName: string }[];
+}
+
+// Open a room for several friends at once. The game is created straight away and
+// each friend gets an invite pointing at it. Returns the new game's id.
+export async function createGameRoom({
+  gameType,
+  collectionName,
+  initialState,
+  options,
+  hostId,
+  hostName,
+  friends
+}: RoomRequest): Promise<string> {
+  try {
+    const gameId = createGameId(gameType);
+    const createdAt = Date.now();
+    const batch = writeBatch(firestore);
+
+    batch.set(doc(firestore, collectionName, gameId), initialState);
+
+    friends.forEach(friend => {
+      batch.set(doc(collection(firestore, GAME_INVITES_COLLECTION)), {
+        senderId: hostId,
+        senderName: hostName,
+        receiverId: friend.uid,
+        receiverName: friend.displayName,
+        gameType,
+        options,
+        gameId,
+        roomSize: friends.length + 1,
+        status: 'pending',
+        createdAt,
+        expiresAt: createdAt + GAME_INVITE_EXPIRY_MS
+      });
+    });
+
+    await batch.commit();
+    return gameId;
+  } catch (error) {
+    console.error('Error creating game room:', error);
+    throw error;
+  }
+}
@@ -0,0 +1,27 @@
+import { httpsCallable } from 'firebase/functions';
+import { functions } from '../firebase/config';
+import { SetHangmanWordRequest, SubmitHangmanGuessRequest } from '../games/hangman';
+
+const setHangmanWordCallable = httpsCallable<SetHangmanWordRequest, void>(functions, 'setHangmanWord');
+
+const submitHangmanGuessCallable = httpsCallable<SubmitHangmanGuessRequest, void>(functions, 'submitHangmanGuess');
+
+// Hand the secret word to the server, which hides it from the guesser and starts the game
+export async function setHangmanWord(gameId: string, word: string): Promise<void> {
+  try {
+    await setHangmanWordCallable({ gameId, word });
+  } catch (error) {
+    console.error('Error setting word:', error);
+    throw error;
+  }
+}
+
+// Have the server check a letter against the secret word
+export async function submitHangmanGuess(gameId: string, letter: string): Promise<void> {
+  try {
+    await submitHangmanGuessCallable({ gameId, letter });
+  } catch (error) {
+    console.error('Error submitting guess:', error);
+    throw error;
+  }
+}
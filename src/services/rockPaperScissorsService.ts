@@ -0,0 +1,37 @@
+import { httpsCallable } from 'firebase/functions';
+import { functions } from '../firebase/config';
+import {
+  Throw,
+  RevealRockPaperScissorsThrowRequest,
+  ClaimRockPaperScissorsTimeoutRequest
+} from '../games/rockPaperScissors';
+
+const revealRockPaperScissorsThrowCallable = httpsCallable<RevealRockPaperScissorsThrowRequest, void>(
+  functions,
+  'revealRockPaperScissorsThrow'
+);
+
+const claimRockPaperScissorsTimeoutCallable = httpsCallable<ClaimRockPaperScissorsTimeoutRequest, void>(
+  functions,
+  'claimRockPaperScissorsTimeout'
+);
+
+// Have the server check a throw against its commitment and score the round once both are in
+export async function revealRockPaperScissorsThrow(gameId: string, value: Throw, salt: string): Promise<void> {
+  try {
+    await revealRockPaperScissorsThrowCallable({ gameId, throw: value, salt });
+  } catch (error) {
+    console.error('Error revealing throw:', error);
+    throw error;
+  }
+}
+
+// Ask the server for the win when the opponent let the round run out
+export async function claimRockPaperScissorsTimeout(gameId: string): Promise<void> {
+  try {
+    await claimRockPaperScissorsTimeoutCallable({ gameId });
+  } catch (error) {
+    console.error('Error claiming round timeout:', error);
+    throw error;
+  }
+}
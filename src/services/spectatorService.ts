@@ -0,0 +1,59 @@
+import { doc, setDoc, updateDoc, deleteDoc } from 'firebase/firestore';
+import { firestore } from '../firebase/config';
+
+// Subcollection of a game document listing who is watching it
+export const SPECTATORS_COLLECTION = 'spectators';
+
+// Spectators refresh their entry this often while watching
+export const SPECTATOR_HEARTBEAT_MS = 30 * 1000;
+
+export interface Spectator {
+  userId: string;
+  displayName: string;
+  joinedAt: number;
+  lastSeen: number;
+}
+
+// Count only spectators who checked in recently, so closed tabs drop out
+export function countActiveSpectators(spectators: Spectator[], now: number = Date.now()): number {
+  return spectators.filter(spectator => now - spectator.lastSeen < SPECTATOR_HEARTBEAT_MS * 3).length;
+}
+
+// Start watching a game
+export async function joinAsSpectator(
+  collectionName: string,
+  gameId: string,
+  userId: string,
+  displayName: string
+): Promise<void> {
+  try {
+    const now = Date.now();
+    const spectator: Spectator = { userId, displayName, joinedAt: now, lastSeen: now };
+    await setDoc(doc(firestore, collectionName, gameId, SPECTATORS_COLLECTION, userId), spectator);
+  } catch (error) {
+    console.error('Error joining as spectator:', error);
+    throw error;
+  }
+}
+
+// Let the players know this spectator is still watching
+export async function refreshSpectator(collectionName: string, gameId: string, userId: string): Promise<void> {
+  try {
+    await updateDoc(doc(firestore, collectionName, gameId, SPECTATORS_COLLECTION, userId), {
+      lastSeen: Date.now()
+    });
+  } catch (error) {
+    console.error('Error refreshing spectator:', error);
+    throw error;
+  }
+}
+
+// Stop watching a game
+export async function leaveAsSpectator(collectionName: string, gameId: string, userId: string): Promise<void> {
+  try {
+    await deleteDoc(doc(firestore, collectionName, gameId, SPECTATORS_COLLECTION, userId));
+  } catch (error) {
+    console.error('Error leaving as spectator:', error);
+    throw error;
+  }
+}
@@ -21,6 +21,11 @@ const TWEETS_COLLECTION = 'tweets';
 const TWEET_ACTIVITY_COLLECTION = 'tweetActivity';
 const TWEETS_PER_PAGE = 5;
 
+// Tweets can only link to a finished Wordle game's summary; the tweets rule checks the same pattern
+export function isSharedGameLink(link: string): boolean {
+  return /^\/wordle\/[A-Za-z0-9_-]+$/.test(link);
+}
+
 // Create a new tweet
 export async function createTweet(tweet: Omit<Tweet, 'id' | 'likes' | 'likedBy' | 'createdAt'>): Promise<string> {
   try {
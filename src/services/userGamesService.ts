@@ -0,0 +1,63 @@
+import { collection, query, where, getDocs, doc, getDoc, setDoc, updateDoc } from 'firebase/firestore';
+import { firestore } from '../firebase/config';
+import { UserGameEntry } from '../models/Game';
+
+// Subcollection of a user document indexing the games they joined
+export const USER_GAMES_COLLECTION = 'games';
+
+// A game's entry in a user's index
+export function getUserGameRef(userId: string, gameId: string) {
+  return doc(firestore, 'users', userId, USER_GAMES_COLLECTION, gameId);
+}
+
+// Add a game to the user's index when they open it, or note that they opened it again
+export async function recordUserGame(
+  userId: string,
+  entry: Pick<UserGameEntry, 'gameId' | 'gameType' | 'opponentId' | 'options'>
+): Promise<void> {
+  try {
+    const entryRef = getUserGameRef(userId, entry.gameId);
+    const entryDoc = await getDoc(entryRef);
+    const now = Date.now();
+
+    if (entryDoc.exists()) {
+      await updateDoc(entryRef, { lastOpenedAt: now });
+    } else {
+      const newEntry: UserGameEntry = { ...entry, finished: false, joinedAt: now, lastOpenedAt: now };
+      await setDoc(entryRef, newEntry);
+    }
+  } catch (error) {
+    console.error('Error recording game:', error);
+    throw error;
+  }
+}
+
+// Get the games the user hasn't seen finish yet, most recently opened first
+export async function getUnfinishedUserGames(userId: string): Promise<UserGameEntry[]> {
+  try {
+    const entriesQuery = query(
+      collection(firestore, 'users', userId, USER_GAMES_COLLECTION),
+      where('finished', '==', false)
+    );
+
+    const snapshot = await getDocs(entriesQuery);
+
+    // Sorted here rather than in the query so it doesn't need a composite index
+    return snapshot.docs
+      .map(entryDoc => entryDoc.data() as UserGameEntry)
+      .sort((a, b) => (b.lastOpenedAt ?? b.joinedAt) - (a.lastOpenedAt ?? a.joinedAt));
+  } catch (error) {
+    console.error('Error fetching games:', error);
+    throw error;
+  }
+}
+
+// Drop a game from the unfinished list once it's over or gone
+export async function markUserGameFinished(userId: string, gameId: string): Promise<void> {
+  try {
+    await updateDoc(getUserGameRef(userId, gameId), { finished: true });
+  } catch (error) {
+    console.error('Error marking game finished:', error);
+    throw error;
+  }
+}
@@ -0,0 +1,108 @@
+import { httpsCallable } from 'firebase/functions';
+import { functions } from '../firebase/config';
+import {
+  SubmitWordleGuessRequest,
+  SubmitWordleGuessResponse,
+  ResignWordleGameRequest,
+  ClaimWordleTimeoutRequest,
+  WordleRoomRequest,
+  CreateWordleCustomWordRequest,
+  CreateWordleCustomWordResponse,
+  SubmitDailyWordleGuessRequest
+} from '../games/wordle';
+
+const submitWordleGuessCallable = httpsCallable<SubmitWordleGuessRequest, SubmitWordleGuessResponse>(
+  functions,
+  'submitWordleGuess'
+);
+
+const resignWordleGameCallable = httpsCallable<ResignWordleGameRequest, void>(functions, 'resignWordleGame');
+
+const claimWordleTimeoutCallable = httpsCallable<ClaimWordleTimeoutRequest, void>(functions, 'claimWordleTimeout');
+
+const joinWordleRoomCallable = httpsCallable<WordleRoomRequest, void>(functions, 'joinWordleRoom');
+
+const startWordleRoomCallable = httpsCallable<WordleRoomRequest, void>(functions, 'startWordleRoom');
+
+const createWordleCustomWordCallable = httpsCallable<CreateWordleCustomWordRequest, CreateWordleCustomWordResponse>(
+  functions,
+  'createWordleCustomWord'
+);
+
+const submitDailyWordleGuessCallable = httpsCallable<SubmitDailyWordleGuessRequest, SubmitWordleGuessResponse>(
+  functions,
+  'submitDailyWordleGuess'
+);
+
+// Have the server score a guess; the answer itself never reaches the browser
+export async function submitWordleGuess(gameId: string, guess: string): Promise<SubmitWordleGuessResponse> {
+  try {
+    const { data } = await submitWordleGuessCallable({ gameId, guess });
+    return data;
+  } catch (error) {
+    console.error('Error submitting guess:', error);
+    throw error;
+  }
+}
+
+// Give up a game, handing the win to the opponent
+export async function resignWordleGame(gameId: string): Promise<void> {
+  try {
+    await resignWordleGameCallable({ gameId });
+  } catch (error) {
+    console.error('Error resigning game:', error);
+    throw error;
+  }
+}
+
+// Ask the server to end a turn that has run out of time
+export async function claimWordleTimeout(gameId: string): Promise<void> {
+  try {
+    await claimWordleTimeoutCallable({ gameId });
+  } catch (error) {
+    console.error('Error claiming turn timeout:', error);
+    throw error;
+  }
+}
+
+// Take a seat in a room the current user was invited to
+export async function joinWordleRoom(gameId: string): Promise<void> {
+  try {
+    await joinWordleRoomCallable({ gameId });
+  } catch (error) {
+    console.error('Error joining room:', error);
+    throw error;
+  }
+}
+
+// Start a room's game with whoever has joined so far
+export async function startWordleRoom(gameId: string): Promise<void> {
+  try {
+    await startWordleRoomCallable({ gameId });
+  } catch (error) {
+    console.error('Error starting room:', error);
+    throw error;
+  }
+}
+
+// Store a word for a friend to guess; only the returned id goes on the invite
+export async function createWordleCustomWord(word: string): Promise<string> {
+  try {
+    const { data } = await createWordleCustomWordCallable({ word });
+    return data.customWordId;
+  } catch (error) {
+    console.error('Error saving custom word:', error);
+    throw error;
+  }
+}
+
+// Have the server score a guess on the given day's solo puzzle
+export async function submitDailyWordleGuess(date: string, guess: string): Promise<SubmitWordleGuessResponse> {
+  try {
+    const { data } = await submitDailyWordleGuessCallable({ date, guess });
+    return data;
+  } catch (error) {
+    console.error('Error submitting daily guess:', error);
+    throw error;
+  }
+}
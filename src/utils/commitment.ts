@@ -0,0 +1,38 @@
+// Commit-reveal helpers for moves that must stay hidden until every player has chosen.
+// A player publishes only the hash of their move plus a random salt, then reveals the
+// move and salt once everyone has committed, so the hash can be checked.
+
+// Generate a random hex salt that makes the commitment impossible to brute force
+export function createSalt(): string {
+  const bytes = new Uint8Array(16);
+  crypto.getRandomValues(bytes);
+  return Array.from(bytes, byte => byte.toString(16).padStart(2, '0')).join('');
+}
+
+// Hash a move together with its salt and context using SHA-256
+export async function hashCommitment(parts: string[], salt: string): Promise<string> {
+  const data = new TextEncoder().encode([...parts, salt].join(':'));
+  const digest = await crypto.subtle.digest('SHA-256', data);
+  return Array.from(new Uint8Array(digest), byte => byte.toString(16).padStart(2, '0')).join('');
+}
+
+// Keep the salt for a pending commitment so a reload doesn't lose the ability to reveal
+export function saveCommitmentSecret(key: string, value: string, salt: string): void {
+  sessionStorage.setItem(`commitment_${key}`, JSON.stringify({ value, salt }));
+}
+
+// Get the stored move and salt for a pending commitment
+export function getCommitmentSecret(key: string): { value: string; salt: string } | null {
+  try {
+    const stored = sessionStorage.getItem(`commitment_${key}`);
+    return stored ? JSON.parse(stored) : null;
+  } catch (error) {
+    console.error('Error reading commitment secret:', error);
+    return null;
+  }
+}
+
+// Forget a commitment secret once it has been revealed
+export function clearCommitmentSecret(key: string): void {
+  sessionStorage.removeItem(`commitment_${key}`);
+}
@@ -16,6 +16,21 @@ export default {
       fontFamily: {
         sans: ['Inter', 'sans-serif'],
       },
+      keyframes: {
+        shake: {
+          "0%, 100%": { transform: "translateX(0)" },
+          "20%, 60%": { transform: "translateX(-6px)" },
+          "40%, 80%": { transform: "translateX(6px)" },
+        },
+        flip: {
+          "0%": { transform: "rotateX(90deg)" },
+          "100%": { transform: "rotateX(0)" },
+        },
+      },
+      animation: {
+        shake: "shake 0.5s ease-in-out",
+        flip: "flip 0.3s ease-out both",
+      },
     },
   },
   plugins: [],